@@ -2,36 +2,246 @@ import { LitElement, css, html } from "lit";
 import { customElement, state, query } from "lit/decorators.js";
 import "./stl-viewer.ts";
 import "./components/settings-dialog.ts";
+import "./components/recent-models.ts";
 import type { SettingsDialog } from "./components/settings-dialog.ts";
-import { backIcon, settingsIcon, boxIcon } from "./components/icons";
+import {
+  backIcon,
+  settingsIcon,
+  boxIcon,
+  rulerIcon,
+  infoIcon,
+  shieldCheckIcon,
+  scissorsIcon,
+  cubeIcon,
+  cameraIcon,
+  listIcon,
+  arrowsOutIcon,
+  rotateIcon,
+  archiveIcon,
+} from "./components/icons";
+import type { MeasureMode } from "./utils/measure";
+import { RENDER_MODES, type RenderMode } from "./utils/render-mode";
+import {
+  ARCHIVE_EXTENSIONS,
+  getArchiveEntryUrl,
+  getExtension,
+  getSupportedExtensions,
+  splitArchiveUrl,
+} from "./loaders";
+import type { STLViewer } from "./stl-viewer.ts";
+import { getSupportedVideoType } from "./utils/capture";
+import { getBaseName, saveBlob } from "./utils/save-file";
+import { formatPrinterSize } from "./utils/printers";
+import type { ModelUnits } from "./utils/units";
+import type { STLFormat } from "./utils/stl-export";
+import { parseBlossomUri } from "./utils/blossom";
+import {
+  type AppSettings,
+  getSettings,
+  subscribeToSettings,
+} from "./services/settings";
+import {
+  addToHistory,
+  getFileHistoryId,
+  getUrlHistoryId,
+  type HistoryEntry,
+} from "./services/history";
+import type { ModelStats } from "./utils/mesh-stats";
+
+const RENDER_MODE_LABELS: Record<RenderMode, string> = {
+  solid: "Solid",
+  wireframe: "Wireframe",
+  xray: "X-ray",
+  normals: "Normals",
+  edges: "Edges",
+  overhang: "Overhangs",
+};
+
+const SECTION_AXES = ["off", "x", "y", "z"] as const;
+
+const UNITS: ModelUnits[] = ["mm", "cm", "inch"];
+
+const CAPTURE_SCALES = [1, 2, 4];
+
+/**
+ * Returns a display name for a model URL: its file name, or its host
+ */
+function getUrlName(src: string): string {
+  try {
+    const url = new URL(src);
+    const file = url.pathname.split("/").pop();
+    return file ? decodeURIComponent(file) : url.hostname;
+  } catch {
+    return src;
+  }
+}
+
+/** Size of the thumbnails saved in the history */
+const THUMBNAIL_WIDTH = 320;
+const THUMBNAIL_HEIGHT = 240;
+
+/**
+ * Returns true for http(s) URLs and Blossom hashes
+ */
+function isModelUrl(src: string): boolean {
+  if (parseBlossomUri(src)) return true;
+  try {
+    return ["http:", "https:"].includes(new URL(src).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the whitespace separated http(s) URLs or Blossom hashes in pasted
+ * text, or undefined when it contains anything else
+ */
+function parsePastedUrls(text: string): string[] | undefined {
+  const urls = text.trim().split(/\s+/).filter(Boolean);
+  if (urls.length === 0) return undefined;
+
+  return urls.every(isModelUrl) ? urls : undefined;
+}
+
+const MEASURE_MODES: MeasureMode[] = ["off", "distance", "angle"];
+const MEASURE_LABELS: Record<MeasureMode, string> = {
+  off: "Measure",
+  distance: "Distance",
+  angle: "Angle",
+};
 
 /**
  * STL Viewer App Component
  *
  * Main application component that provides UI for loading STL files
- * via URL input or file upload. Also supports loading from URL query parameter.
+ * via URL input or file upload. Files can also be dropped anywhere on the
+ * page, and files or URLs pasted from the clipboard. Also supports loading
+ * from URL query parameter.
  */
 @customElement("stl-viewer-app")
 export class STLViewerApp extends LitElement {
   @state()
   private modelUrl = "";
 
+  /** True while the viewer is rendered to load uploaded files */
+  @state()
+  private openingFiles = false;
+
   @state()
   private urlInput = "";
 
   @state()
   private errorMessage = "";
 
+  @state()
+  private measureMode: MeasureMode = "off";
+
+  @state()
+  private showStats = false;
+
+  @state()
+  private showHealth = false;
+
+  @state()
+  private showParts = false;
+
+  @state()
+  private trueScale = false;
+
+  @state()
+  private units: ModelUnits = "mm";
+
+  /** Printer attribute value for the viewer, from the settings */
+  @state()
+  private printer = "";
+
+  @state()
+  private renderMode: RenderMode = "solid";
+
+  @state()
+  private overhangAngle = 45;
+
+  @state()
+  private modelCache = true;
+
+  @state()
+  private appearance = {
+    color: "",
+    background: "",
+    showGrid: true,
+    showFloor: true,
+    fog: true,
+    fileColors: true,
+  };
+
+  /** Tool panel shown under the viewer controls */
+  @state()
+  private openPanel?: "section" | "capture" | "orient" | "archive";
+
+  /** ZIP archive with several models that the current model comes from */
+  @state()
+  private archive?: { url: string; models: string[] };
+
+  @state()
+  private sectionAxis: (typeof SECTION_AXES)[number] = "off";
+
+  @state()
+  private sectionPosition = 0.5;
+
+  @state()
+  private sectionFlip = false;
+
+  @state()
+  private captureScale = 2;
+
+  @state()
+  private captureTransparent = false;
+
+  @state()
+  private recording = false;
+
+  @state()
+  private pickingFace = false;
+
+  @state()
+  private exportFormat: STLFormat = "binary";
+
+  @state()
+  private exportTransforms = true;
+
+  @query("stl-viewer")
+  private viewer?: STLViewer;
+
   @query("settings-dialog")
   private settingsDialog?: SettingsDialog;
 
+  /** True while files are dragged over the page */
+  @state()
+  private dragging = false;
+
+  private unsubscribeSettings?: () => void;
+  // The model being opened, added to the history once it has loaded
+  private pendingHistory?: Pick<HistoryEntry, "id" | "name" | "urls" | "files">;
+  // dragenter and dragleave fire for every element crossed, so count them
+  private dragDepth = 0;
+
   connectedCallback(): void {
     super.connectedCallback();
     this.loadFromQueryParams();
+    this.applySettings(getSettings());
+    this.unsubscribeSettings = subscribeToSettings((settings) =>
+      this.applySettings(settings),
+    );
+
+    window.addEventListener("dragenter", this.handleDragEnter);
+    window.addEventListener("dragover", this.handleDragOver);
+    window.addEventListener("dragleave", this.handleDragLeave);
+    window.addEventListener("drop", this.handleDrop);
+    window.addEventListener("paste", this.handlePaste);
   }
 
   render() {
-    if (this.modelUrl) {
+    if (this.modelUrl || this.openingFiles) {
       // Full page viewer mode
       return html`
         <div class="fullpage-viewer">
@@ -43,20 +253,148 @@ export class STLViewerApp extends LitElement {
             >
               ${backIcon()} Back
             </button>
-            <button
-              @click=${this.openSettings}
-              class="settings-button-viewer"
-              title="Settings"
-            >
-              ${settingsIcon()}
-            </button>
+            <div class="viewer-actions">
+              <button
+                @click=${this.cycleRenderMode}
+                class="tool-button"
+                title="Switch render mode"
+              >
+                ${cubeIcon()} ${RENDER_MODE_LABELS[this.renderMode]}
+              </button>
+              <button
+                @click=${this.cycleMeasureMode}
+                class="tool-button ${this.measureMode !== "off"
+                  ? "active"
+                  : ""}"
+                title="Measure distances and angles"
+              >
+                ${rulerIcon()} ${MEASURE_LABELS[this.measureMode]}
+              </button>
+              <button
+                @click=${this.toggleStats}
+                class="tool-button ${this.showStats ? "active" : ""}"
+                title="Show model statistics"
+              >
+                ${infoIcon()} Info
+              </button>
+              <button
+                @click=${this.toggleTrueScale}
+                class="tool-button ${this.trueScale ? "active" : ""}"
+                title="Show the model at real size"
+              >
+                ${arrowsOutIcon()} True scale
+              </button>
+              <button
+                @click=${this.cycleUnits}
+                class="tool-button"
+                title="Units the model file was exported in"
+              >
+                ${this.units}
+              </button>
+              <button
+                @click=${this.toggleParts}
+                class="tool-button ${this.showParts ? "active" : ""}"
+                title="Show the parts list"
+              >
+                ${listIcon()} Parts
+              </button>
+              ${this.archive
+                ? html`<button
+                    @click=${this.toggleArchivePanel}
+                    class="tool-button ${this.openPanel === "archive"
+                      ? "active"
+                      : ""}"
+                    title="Pick the models to open from the archive"
+                  >
+                    ${archiveIcon()} Files
+                  </button>`
+                : null}
+              <button
+                @click=${this.toggleHealth}
+                class="tool-button ${this.showHealth ? "active" : ""}"
+                title="Check the mesh for defects"
+              >
+                ${shieldCheckIcon()} Check
+              </button>
+              <button
+                @click=${this.toggleSectionPanel}
+                class="tool-button ${this.sectionAxis !== "off"
+                  ? "active"
+                  : ""}"
+                title="Cut the model with a section plane"
+              >
+                ${scissorsIcon()} Section
+              </button>
+              <button
+                @click=${this.toggleOrientPanel}
+                class="tool-button ${this.openPanel === "orient"
+                  ? "active"
+                  : ""}"
+                title="Rotate the model and download it as STL"
+              >
+                ${rotateIcon()} Orient
+              </button>
+              <button
+                @click=${this.toggleCapturePanel}
+                class="tool-button ${this.openPanel === "capture" ||
+                this.recording
+                  ? "active"
+                  : ""}"
+                title="Save an image or turntable video"
+              >
+                ${cameraIcon()} Capture
+              </button>
+              <button
+                @click=${this.openSettings}
+                class="settings-button-viewer"
+                title="Settings"
+              >
+                ${settingsIcon()}
+              </button>
+            </div>
           </div>
           <stl-viewer
             src=${this.modelUrl}
             width=${window.innerWidth}
             height=${window.innerHeight}
+            measure=${this.measureMode}
+            ?show-stats=${this.showStats}
+            ?show-parts=${this.showParts}
+            ?show-health=${this.showHealth}
+            render-mode=${this.renderMode}
+            overhang-angle=${this.overhangAngle}
+            color=${this.appearance.color}
+            background=${this.appearance.background}
+            show-grid=${String(this.appearance.showGrid)}
+            show-floor=${String(this.appearance.showFloor)}
+            fog=${this.appearance.fog ? "on" : "off"}
+            ?uniform-color=${!this.appearance.fileColors}
+            ?cache=${this.modelCache}
+            printer=${this.printer}
+            units=${this.units}
+            ?true-scale=${this.trueScale}
+            section=${this.sectionAxis}
+            section-position=${this.sectionPosition}
+            ?section-flip=${this.sectionFlip}
+            @load=${this.handleModelLoad}
+            @archive=${this.handleArchive}
           ></stl-viewer>
+          ${this.openPanel === "section" ? this.renderSectionPanel() : null}
+          ${this.openPanel === "orient" ? this.renderOrientPanel() : null}
+          ${this.openPanel === "capture" ? this.renderCapturePanel() : null}
+          ${this.openPanel === "archive" ? this.renderArchivePanel() : null}
+          ${this.errorMessage
+            ? html`<div
+                class="viewer-error"
+                role="alert"
+                title="Dismiss"
+                @click=${() => (this.errorMessage = "")}
+              >
+                ${this.errorMessage}
+              </div>`
+            : null}
           <settings-dialog></settings-dialog>
+          ${this.renderDropOverlay()}
         </div>
       `;
     }
@@ -107,7 +445,10 @@ export class STLViewerApp extends LitElement {
             <input
               id="file-input"
               type="file"
-              accept=".stl"
+              multiple
+              accept=${[...getSupportedExtensions(), ...ARCHIVE_EXTENSIONS]
+                .map((ext) => `.${ext}`)
+                .join(",")}
               @change=${this.handleFileUpload}
             />
           </div>
@@ -117,23 +458,225 @@ export class STLViewerApp extends LitElement {
             : ""}
         </div>
 
-        <div class="placeholder">
-          ${boxIcon(120)}
-          <p>Enter a URL or upload an STL file to preview</p>
-        </div>
+        <recent-models @history-open=${this.handleHistoryOpen}>
+          <div class="placeholder">
+            ${boxIcon(120)}
+            <p>Enter a URL or upload a model file to preview</p>
+            <p class="placeholder-hint">
+              You can also drop files anywhere on the page or paste a URL
+            </p>
+          </div>
+        </recent-models>
 
         <settings-dialog></settings-dialog>
+        ${this.renderDropOverlay()}
+      </div>
+    `;
+  }
+
+  private renderDropOverlay() {
+    if (!this.dragging) return null;
+
+    return html`
+      <div class="drop-overlay">
+        ${boxIcon(80)}
+        <p>Drop model files to open them</p>
+      </div>
+    `;
+  }
+
+  private renderSectionPanel() {
+    return html`
+      <div class="section-panel">
+        <div class="section-axes">
+          ${SECTION_AXES.map(
+            (axis) => html`
+              <button
+                class=${this.sectionAxis === axis ? "active" : ""}
+                @click=${() => (this.sectionAxis = axis)}
+              >
+                ${axis === "off" ? "Off" : axis.toUpperCase()}
+              </button>
+            `,
+          )}
+        </div>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.001"
+          .value=${String(this.sectionPosition)}
+          ?disabled=${this.sectionAxis === "off"}
+          @input=${this.handleSectionPositionInput}
+          aria-label="Section position"
+        />
+        <label class="section-flip">
+          <input
+            type="checkbox"
+            .checked=${this.sectionFlip}
+            ?disabled=${this.sectionAxis === "off"}
+            @change=${this.handleSectionFlipChange}
+          />
+          Flip side
+        </label>
+      </div>
+    `;
+  }
+
+  private renderArchivePanel() {
+    if (!this.archive) return null;
+    const [, current] = splitArchiveUrl(this.modelUrl);
+
+    return html`
+      <div class="archive-panel">
+        <button
+          class="archive-file ${current === undefined ? "active" : ""}"
+          @click=${() => this.openArchiveModel()}
+        >
+          All ${this.archive.models.length} models
+        </button>
+        <ul>
+          ${this.archive.models.map(
+            (path) => html`
+              <li>
+                <button
+                  class="archive-file ${current === path ? "active" : ""}"
+                  @click=${() => this.openArchiveModel(path)}
+                  title=${path}
+                >
+                  ${path}
+                </button>
+              </li>
+            `,
+          )}
+        </ul>
+      </div>
+    `;
+  }
+
+  private renderOrientPanel() {
+    return html`
+      <div class="orient-panel">
+        <div class="orient-buttons">
+          ${(["x", "y", "z"] as const).map(
+            (axis) => html`
+              <button
+                @click=${() => this.viewer?.rotate(axis)}
+                title="Rotate 90° around ${axis.toUpperCase()}"
+              >
+                ${axis.toUpperCase()} 90°
+              </button>
+            `,
+          )}
+        </div>
+        <button class="panel-action" @click=${this.layFlat}>
+          ${this.pickingFace
+            ? "Click a face to put down..."
+            : "Lay flat on face"}
+        </button>
+        <div class="orient-buttons">
+          <button @click=${() => this.viewer?.resetOrientation()}>
+            Reset orientation
+          </button>
+        </div>
+        <label class="panel-option">
+          STL format
+          <select @change=${this.handleExportFormatChange}>
+            <option value="binary" ?selected=${this.exportFormat === "binary"}>
+              Binary
+            </option>
+            <option value="ascii" ?selected=${this.exportFormat === "ascii"}>
+              ASCII
+            </option>
+          </select>
+        </label>
+        <label class="panel-option">
+          <input
+            type="checkbox"
+            .checked=${this.exportTransforms}
+            @change=${this.handleExportTransformsChange}
+          />
+          Apply rotation, layout and units
+        </label>
+        <button class="panel-action" @click=${this.downloadSTL}>
+          Download STL
+        </button>
       </div>
     `;
   }
 
+  private renderCapturePanel() {
+    return html`
+      <div class="capture-panel">
+        <label class="panel-option">
+          Image size
+          <select @change=${this.handleCaptureScaleChange}>
+            ${CAPTURE_SCALES.map(
+              (scale) => html`
+                <option value=${scale} ?selected=${this.captureScale === scale}>
+                  ${Math.round(window.innerWidth * scale)} ×
+                  ${Math.round(window.innerHeight * scale)}
+                </option>
+              `,
+            )}
+          </select>
+        </label>
+        <label class="panel-option">
+          <input
+            type="checkbox"
+            .checked=${this.captureTransparent}
+            @change=${this.handleCaptureTransparentChange}
+          />
+          Transparent background
+        </label>
+        <button class="panel-action" @click=${this.saveScreenshot}>
+          Save image
+        </button>
+        ${getSupportedVideoType()
+          ? html`
+              <button class="panel-action" @click=${this.toggleTurntable}>
+                ${this.recording ? "Stop recording" : "Record turntable"}
+              </button>
+            `
+          : null}
+      </div>
+    `;
+  }
+
+  private applySettings(settings: AppSettings): void {
+    this.printer =
+      settings.printer === "custom"
+        ? formatPrinterSize(settings.customPrinter)
+        : settings.printer;
+    this.overhangAngle = settings.overhangAngle;
+    this.modelCache = settings.modelCache;
+    this.appearance = {
+      color: settings.modelColor,
+      background: settings.background,
+      showGrid: settings.showGrid,
+      showFloor: settings.showFloor,
+      fog: settings.fog,
+      fileColors: settings.fileColors,
+    };
+  }
+
   private loadFromQueryParams(): void {
     const params = new URLSearchParams(window.location.search);
-    const srcParam = params.get("src");
-
-    if (srcParam) {
-      this.urlInput = srcParam;
-      this.modelUrl = srcParam;
+    // ?sha256=<hash> loads a Blossom blob, like ?src=blossom:<hash>
+    const srcParams = [
+      ...params.getAll("src"),
+      ...params.getAll("sha256").map((hash) => `blossom:${hash}`),
+    ];
+
+    if (srcParams.length > 0) {
+      this.urlInput = srcParams.join(" ");
+      this.modelUrl = srcParams.join(" ");
+      this.pendingHistory = {
+        id: getUrlHistoryId(srcParams),
+        name: srcParams.map((src) => getUrlName(src)).join(", "),
+        urls: srcParams,
+      };
+      this.showParts = srcParams.length > 1;
       this.errorMessage = "";
     }
   }
@@ -157,71 +700,404 @@ export class STLViewerApp extends LitElement {
     }
 
     try {
-      new URL(this.urlInput);
-      this.modelUrl = this.urlInput;
-      this.errorMessage = "";
-
-      // Update URL without reloading page
-      const url = new URL(window.location.href);
-      url.searchParams.set("src", this.urlInput);
-      window.history.pushState({}, "", url);
+      // Several URLs separated by spaces are loaded onto one build plate
+      const urls = this.urlInput.trim().split(/\s+/);
+      urls.forEach((src) => parseBlossomUri(src) || new URL(src));
+      this.openUrls(urls);
     } catch (error) {
       this.errorMessage = "Invalid URL format";
     }
   }
 
+  private openUrls(urls: string[]): void {
+    this.revokeModelUrls();
+    this.modelUrl = urls.join(" ");
+    this.urlInput = urls.join(" ");
+    this.showParts = urls.length > 1;
+    this.errorMessage = "";
+    this.closeArchive();
+    this.pendingHistory = {
+      id: getUrlHistoryId(urls),
+      name: urls.map((src) => getUrlName(src)).join(", "),
+      urls,
+    };
+
+    // Update URL without reloading page
+    const url = new URL(window.location.href);
+    url.searchParams.delete("src");
+    url.searchParams.delete("sha256");
+    for (const src of urls) url.searchParams.append("src", src);
+    window.history.pushState({}, "", url);
+  }
+
   private handleFileUpload(e: Event): void {
     const input = e.target as HTMLInputElement;
-    const file = input.files?.[0];
-
-    if (!file) return;
+    this.openFiles(Array.from(input.files ?? []));
+  }
 
-    if (!file.name.toLowerCase().endsWith(".stl")) {
-      this.errorMessage = "Please select an STL file";
+  private async openFiles(files: File[]): Promise<void> {
+    if (files.length === 0) return;
+
+    const extensions = [...getSupportedExtensions(), ...ARCHIVE_EXTENSIONS];
+    const supported = files.every((file) => {
+      const extension = getExtension(file.name);
+      return extension && extensions.includes(extension);
+    });
+    if (!supported) {
+      this.errorMessage = `Please select model files (${extensions
+        .map((ext) => ext.toUpperCase())
+        .join(", ")})`;
       return;
     }
 
-    // Revoke previous object URL if it exists
-    if (this.modelUrl.startsWith("blob:")) {
-      URL.revokeObjectURL(this.modelUrl);
-    }
+    // Revoke previous object URLs if they exist
+    this.revokeModelUrls();
 
-    // Create object URL for the file
-    this.modelUrl = URL.createObjectURL(file);
-    this.urlInput = file.name;
+    this.urlInput = files.map((file) => file.name).join(", ");
+    this.showParts = files.length > 1;
     this.errorMessage = "";
+    this.closeArchive();
+    this.pendingHistory = {
+      id: getFileHistoryId(files),
+      name: files.map((file) => file.name).join(", "),
+      files,
+    };
 
     // Clear URL parameter when loading local file
     const url = new URL(window.location.href);
     url.searchParams.delete("src");
+    url.searchParams.delete("sha256");
     window.history.pushState({}, "", url);
+
+    // The viewer keeps the file names, so the parts are named after them and
+    // the format can be told from the extension
+    this.openingFiles = true;
+    await this.updateComplete;
+    this.openingFiles = false;
+    if (!this.viewer) return;
+
+    this.viewer.load(files).catch(() => {
+      // The viewer shows why loading failed
+    });
+    this.modelUrl = this.viewer.src;
   }
 
   private clearModel(): void {
-    // Revoke object URL if it exists
-    if (this.modelUrl.startsWith("blob:")) {
-      URL.revokeObjectURL(this.modelUrl);
-    }
+    // Revoke object URLs if they exist
+    this.revokeModelUrls();
 
     this.modelUrl = "";
     this.errorMessage = "";
+    this.measureMode = "off";
+    this.showParts = false;
+    this.units = "mm";
+    this.openPanel = undefined;
+    this.archive = undefined;
+    this.sectionAxis = "off";
+    this.sectionPosition = 0.5;
+    this.sectionFlip = false;
+    this.recording = false;
+    this.pickingFace = false;
 
     // Clear URL parameter
     const url = new URL(window.location.href);
     url.searchParams.delete("src");
+    url.searchParams.delete("sha256");
     window.history.pushState({}, "", url);
   }
 
+  private cycleMeasureMode(): void {
+    const index = MEASURE_MODES.indexOf(this.measureMode);
+    this.measureMode = MEASURE_MODES[(index + 1) % MEASURE_MODES.length];
+  }
+
+  private cycleRenderMode(): void {
+    const index = RENDER_MODES.indexOf(this.renderMode);
+    this.renderMode = RENDER_MODES[(index + 1) % RENDER_MODES.length];
+  }
+
+  private toggleStats(): void {
+    this.showStats = !this.showStats;
+  }
+
+  private toggleTrueScale(): void {
+    this.trueScale = !this.trueScale;
+  }
+
+  private cycleUnits(): void {
+    const index = UNITS.indexOf(this.units);
+    this.units = UNITS[(index + 1) % UNITS.length];
+  }
+
+  private handleArchive(
+    e: CustomEvent<{ url: string; models: string[] }>,
+  ): void {
+    const { url, models } = e.detail;
+    const single = !this.modelUrl.includes(" ");
+    if (!single || models.length < 2) {
+      this.archive = undefined;
+      return;
+    }
+
+    // Let the user pick from a freshly opened archive
+    const opened = this.archive?.url === url;
+    this.archive = { url, models };
+    if (!opened) this.openPanel = "archive";
+  }
+
+  private closeArchive(): void {
+    this.archive = undefined;
+    if (this.openPanel === "archive") this.openPanel = undefined;
+  }
+
+  private toggleArchivePanel(): void {
+    this.openPanel = this.openPanel === "archive" ? undefined : "archive";
+  }
+
+  /**
+   * Opens one model of the current archive, or all of them
+   */
+  private openArchiveModel(path?: string): void {
+    if (!this.archive) return;
+
+    // Object URLs of uploaded archives stay valid, only the fragment changes
+    const { url } = this.archive;
+    this.modelUrl = path ? getArchiveEntryUrl(url, path) : url;
+    this.showParts = !path;
+
+    if (!url.startsWith("blob:")) {
+      this.urlInput = this.modelUrl;
+      const pageUrl = new URL(window.location.href);
+      pageUrl.searchParams.set("src", this.modelUrl);
+      pageUrl.searchParams.delete("sha256");
+      window.history.pushState({}, "", pageUrl);
+    }
+  }
+
+  private toggleParts(): void {
+    this.showParts = !this.showParts;
+  }
+
+  private toggleHealth(): void {
+    this.showHealth = !this.showHealth;
+  }
+
+  private toggleSectionPanel(): void {
+    this.openPanel = this.openPanel === "section" ? undefined : "section";
+
+    // Start cutting along Z when the panel is first opened
+    if (this.openPanel === "section" && this.sectionAxis === "off") {
+      this.sectionAxis = "z";
+    }
+  }
+
+  private handleSectionPositionInput(e: Event): void {
+    this.sectionPosition = Number((e.target as HTMLInputElement).value);
+  }
+
+  private handleSectionFlipChange(e: Event): void {
+    this.sectionFlip = (e.target as HTMLInputElement).checked;
+  }
+
+  private toggleOrientPanel(): void {
+    this.openPanel = this.openPanel === "orient" ? undefined : "orient";
+  }
+
+  private async layFlat(): Promise<void> {
+    if (!this.viewer || this.pickingFace) return;
+
+    this.pickingFace = true;
+    try {
+      await this.viewer.pickLayFlatFace();
+    } finally {
+      this.pickingFace = false;
+    }
+  }
+
+  private downloadSTL(): void {
+    if (!this.viewer) return;
+
+    try {
+      const blob = this.viewer.exportSTL({
+        format: this.exportFormat,
+        applyTransforms: this.exportTransforms,
+        name: this.captureName,
+      });
+      saveBlob(blob, `${this.captureName}.stl`);
+    } catch (error) {
+      console.error("Failed to export STL:", error);
+    }
+  }
+
+  private handleExportFormatChange(e: Event): void {
+    this.exportFormat = (e.target as HTMLSelectElement).value as STLFormat;
+  }
+
+  private handleExportTransformsChange(e: Event): void {
+    this.exportTransforms = (e.target as HTMLInputElement).checked;
+  }
+
+  private toggleCapturePanel(): void {
+    this.openPanel = this.openPanel === "capture" ? undefined : "capture";
+  }
+
+  private handleCaptureScaleChange(e: Event): void {
+    this.captureScale = Number((e.target as HTMLSelectElement).value);
+  }
+
+  private handleCaptureTransparentChange(e: Event): void {
+    this.captureTransparent = (e.target as HTMLInputElement).checked;
+  }
+
+  /** File name for captures and exports, without the extension */
+  private get captureName(): string {
+    const names = this.urlInput.split(/,?\s+/).filter(Boolean);
+    return names.length === 1 ? getBaseName(names[0]) : "build-plate";
+  }
+
+  private async saveScreenshot(): Promise<void> {
+    if (!this.viewer) return;
+
+    try {
+      const blob = await this.viewer.screenshot({
+        width: window.innerWidth * this.captureScale,
+        height: window.innerHeight * this.captureScale,
+        transparent: this.captureTransparent,
+      });
+      saveBlob(blob, `${this.captureName}.png`);
+    } catch (error) {
+      console.error("Failed to capture image:", error);
+    }
+  }
+
+  private async toggleTurntable(): Promise<void> {
+    if (!this.viewer) return;
+
+    if (this.recording) {
+      this.viewer.cancelRecording();
+      return;
+    }
+
+    this.recording = true;
+    this.openPanel = undefined;
+    try {
+      const blob = await this.viewer.recordTurntable();
+      saveBlob(blob, `${this.captureName}.webm`);
+    } catch (error) {
+      if ((error as Error).name !== "AbortError") {
+        console.error("Failed to record turntable:", error);
+      }
+    } finally {
+      this.recording = false;
+    }
+  }
+
   private openSettings(): void {
     this.settingsDialog?.open();
   }
 
+  private async handleModelLoad(
+    e: CustomEvent<{ stats: ModelStats }>,
+  ): Promise<void> {
+    const entry = this.pendingHistory;
+    this.pendingHistory = undefined;
+    if (!entry || !this.viewer) return;
+
+    try {
+      const thumbnail = await this.viewer.screenshot({
+        width: THUMBNAIL_WIDTH,
+        height: THUMBNAIL_HEIGHT,
+        type: "image/webp",
+      });
+      await addToHistory({
+        ...entry,
+        thumbnail,
+        fileSize: e.detail.stats.fileSize,
+      });
+    } catch (error) {
+      console.error("Error saving model to history:", error);
+    }
+  }
+
+  private handleHistoryOpen(e: CustomEvent<{ entry: HistoryEntry }>): void {
+    const { entry } = e.detail;
+    if (entry.files) this.openFiles(entry.files);
+    else if (entry.urls) this.openUrls(entry.urls);
+  }
+
+  private hasDraggedFiles(e: DragEvent): boolean {
+    return !!e.dataTransfer?.types.includes("Files");
+  }
+
+  private handleDragEnter = (e: DragEvent): void => {
+    if (!this.hasDraggedFiles(e)) return;
+    e.preventDefault();
+    this.dragDepth++;
+    this.dragging = true;
+  };
+
+  private handleDragOver = (e: DragEvent): void => {
+    if (!this.hasDraggedFiles(e)) return;
+    // Allows the drop and stops the browser from opening the file
+    e.preventDefault();
+    e.dataTransfer!.dropEffect = "copy";
+  };
+
+  private handleDragLeave = (e: DragEvent): void => {
+    if (!this.hasDraggedFiles(e)) return;
+    this.dragDepth = Math.max(0, this.dragDepth - 1);
+    if (this.dragDepth === 0) this.dragging = false;
+  };
+
+  private handleDrop = (e: DragEvent): void => {
+    if (!this.hasDraggedFiles(e)) return;
+    e.preventDefault();
+    this.dragDepth = 0;
+    this.dragging = false;
+    this.openFiles(Array.from(e.dataTransfer!.files));
+  };
+
+  private handlePaste = (e: ClipboardEvent): void => {
+    // Leave pasting into text fields alone
+    const target = e.composedPath()[0];
+    if (
+      target instanceof HTMLInputElement ||
+      target instanceof HTMLTextAreaElement ||
+      (target instanceof HTMLElement && target.isContentEditable)
+    ) {
+      return;
+    }
+
+    const files = Array.from(e.clipboardData?.files ?? []);
+    if (files.length > 0) {
+      e.preventDefault();
+      this.openFiles(files);
+      return;
+    }
+
+    const urls = parsePastedUrls(e.clipboardData?.getData("text") ?? "");
+    if (urls) {
+      e.preventDefault();
+      this.openUrls(urls);
+    }
+  };
+
+  private revokeModelUrls(): void {
+    for (const url of this.modelUrl.split(" ")) {
+      if (url.startsWith("blob:")) URL.revokeObjectURL(splitArchiveUrl(url)[0]);
+    }
+  }
+
   disconnectedCallback(): void {
     super.disconnectedCallback();
-    // Clean up object URL if it exists
-    if (this.modelUrl.startsWith("blob:")) {
-      URL.revokeObjectURL(this.modelUrl);
-    }
+    this.unsubscribeSettings?.();
+    window.removeEventListener("dragenter", this.handleDragEnter);
+    window.removeEventListener("dragover", this.handleDragOver);
+    window.removeEventListener("dragleave", this.handleDragLeave);
+    window.removeEventListener("drop", this.handleDrop);
+    window.removeEventListener("paste", this.handlePaste);
+    // Clean up object URLs if they exist
+    this.revokeModelUrls();
   }
 
   static styles = css`
@@ -288,6 +1164,155 @@ export class STLViewerApp extends LitElement {
       flex-shrink: 0;
     }
 
+    .viewer-actions {
+      display: flex;
+      flex-wrap: wrap;
+      justify-content: flex-end;
+      align-items: center;
+      gap: 0.5rem;
+    }
+
+    .tool-button {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 0.75rem 1rem;
+      background: rgba(255, 255, 255, 0.95);
+      color: #333;
+      border: none;
+      border-radius: 8px;
+      font-size: 1rem;
+      font-weight: 600;
+      cursor: pointer;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+      transition: all 0.2s;
+    }
+
+    .tool-button:hover {
+      background: white;
+      transform: translateY(-2px);
+      box-shadow: 0 6px 16px rgba(0, 0, 0, 0.2);
+    }
+
+    .tool-button:active {
+      transform: translateY(0);
+    }
+
+    .tool-button.active {
+      background: #1a5fb4;
+      color: white;
+    }
+
+    .section-panel,
+    .orient-panel,
+    .capture-panel,
+    .archive-panel {
+      position: fixed;
+      top: 5rem;
+      right: 1rem;
+      z-index: 1000;
+      display: flex;
+      flex-direction: column;
+      gap: 0.75rem;
+      width: 260px;
+      padding: 1rem;
+      background: rgba(255, 255, 255, 0.95);
+      color: #333;
+      border-radius: 8px;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+    }
+
+    .section-axes,
+    .orient-buttons {
+      display: flex;
+      gap: 0.25rem;
+    }
+
+    .section-axes button,
+    .orient-buttons button {
+      flex: 1;
+      padding: 0.5rem;
+      background: #f0f0f0;
+      color: #333;
+      border: none;
+      border-radius: 6px;
+      font-weight: 600;
+      cursor: pointer;
+    }
+
+    .section-axes button.active {
+      background: #1a5fb4;
+      color: white;
+    }
+
+    .section-panel input[type="range"] {
+      width: 100%;
+    }
+
+    .section-flip {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      margin: 0;
+      font-weight: normal;
+    }
+
+    .archive-panel {
+      max-height: calc(100vh - 7rem);
+    }
+
+    .archive-panel ul {
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+      margin: 0;
+      padding: 0;
+      overflow-y: auto;
+      list-style: none;
+    }
+
+    .archive-file {
+      width: 100%;
+      padding: 0.5rem;
+      overflow: hidden;
+      background: #f0f0f0;
+      color: #333;
+      border: none;
+      border-radius: 6px;
+      text-align: left;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      cursor: pointer;
+    }
+
+    .archive-file.active {
+      background: #1a5fb4;
+      color: white;
+    }
+
+    .panel-option {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      margin: 0;
+      font-weight: normal;
+    }
+
+    .panel-option select {
+      flex: 1;
+      padding: 0.25rem;
+    }
+
+    .panel-action {
+      padding: 0.5rem;
+      background: #1a5fb4;
+      color: white;
+      border: none;
+      border-radius: 6px;
+      font-weight: 600;
+      cursor: pointer;
+    }
+
     .settings-button-viewer {
       display: flex;
       align-items: center;
@@ -503,6 +1528,47 @@ export class STLViewerApp extends LitElement {
       margin: 0;
     }
 
+    .placeholder .placeholder-hint {
+      margin-top: 0.5rem;
+      font-size: 0.9rem;
+    }
+
+    .drop-overlay {
+      position: fixed;
+      inset: 0;
+      z-index: 2000;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      gap: 1rem;
+      background: rgba(26, 95, 180, 0.85);
+      color: white;
+      border: 4px dashed rgba(255, 255, 255, 0.8);
+      box-sizing: border-box;
+      font-size: 1.5rem;
+      font-weight: 600;
+      pointer-events: none;
+    }
+
+    .drop-overlay p {
+      margin: 0;
+    }
+
+    .viewer-error {
+      position: fixed;
+      bottom: 1rem;
+      left: 50%;
+      transform: translateX(-50%);
+      z-index: 1000;
+      padding: 0.75rem 1rem;
+      background: rgba(192, 28, 40, 0.95);
+      color: white;
+      border-radius: 8px;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+      cursor: pointer;
+    }
+
     @media (max-width: 768px) {
       :host {
         padding: 1rem;
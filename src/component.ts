@@ -14,3 +14,11 @@ import "./stl-viewer.ts";
 
 // Export the component class for advanced usage
 export { STLViewer } from "./stl-viewer.ts";
+export type { ModelLoader, ModelPart } from "./loaders/index.ts";
+export type { CameraState, CameraView, PartInfo } from "./world.ts";
+export type { ModelStats } from "./utils/mesh-stats.ts";
+export type { ScreenshotOptions, TurntableOptions } from "./utils/capture.ts";
+export type { PrinterFit } from "./utils/printers.ts";
+export type { OverhangReport } from "./utils/overhang.ts";
+export type { UrlResolver } from "./utils/url-resolvers.ts";
+export type { STLExportOptions, STLFormat } from "./utils/stl-export.ts";
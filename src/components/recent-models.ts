@@ -0,0 +1,302 @@
+/**
+ * Recent Models Component
+ *
+ * Lists the recently opened models with their thumbnails on the landing
+ * page, with actions to pin, remove or clear them. Shows its slotted
+ * content instead when the history is empty.
+ */
+
+import { LitElement, css, html } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import {
+  clearHistory,
+  getHistory,
+  type HistoryEntry,
+  removeFromHistory,
+  setHistoryPinned,
+  subscribeToHistory,
+} from "../services/history";
+import { formatBytes } from "../utils/mesh-stats";
+import { boxIcon, pinIcon, trashIcon } from "./icons";
+
+const dateFormat = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+@customElement("recent-models")
+export class RecentModels extends LitElement {
+  @state()
+  private entries: HistoryEntry[] = [];
+
+  // Object URLs of the thumbnails, by entry id
+  private thumbnails = new Map<string, string>();
+  private unsubscribe?: () => void;
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    this.loadHistory();
+    this.unsubscribe = subscribeToHistory(() => this.loadHistory());
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.unsubscribe?.();
+    this.revokeThumbnails();
+  }
+
+  private async loadHistory(): Promise<void> {
+    try {
+      const entries = await getHistory();
+      this.revokeThumbnails();
+      for (const entry of entries) {
+        if (entry.thumbnail) {
+          this.thumbnails.set(entry.id, URL.createObjectURL(entry.thumbnail));
+        }
+      }
+      this.entries = entries;
+    } catch (error) {
+      // IndexedDB can be unavailable, e.g. in private browsing
+      console.error("Error loading history:", error);
+      this.entries = [];
+    }
+  }
+
+  private revokeThumbnails(): void {
+    for (const url of this.thumbnails.values()) URL.revokeObjectURL(url);
+    this.thumbnails.clear();
+  }
+
+  private openEntry(entry: HistoryEntry): void {
+    this.dispatchEvent(
+      new CustomEvent("history-open", {
+        detail: { entry },
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  private togglePinned(e: Event, entry: HistoryEntry): void {
+    e.stopPropagation();
+    setHistoryPinned(entry.id, !entry.pinned);
+  }
+
+  private removeEntry(e: Event, entry: HistoryEntry): void {
+    e.stopPropagation();
+    removeFromHistory(entry.id);
+  }
+
+  private handleClear(): void {
+    if (confirm("Remove all models from the history except pinned ones?")) {
+      clearHistory();
+    }
+  }
+
+  render() {
+    if (this.entries.length === 0) return html`<slot></slot>`;
+
+    return html`
+      <div class="recent-models">
+        <div class="recent-header">
+          <h2>Recent models</h2>
+          ${this.entries.some((entry) => !entry.pinned)
+            ? html`<button class="clear-button" @click=${this.handleClear}>
+                Clear
+              </button>`
+            : null}
+        </div>
+        <ul>
+          ${this.entries.map((entry) => {
+            const thumbnail = this.thumbnails.get(entry.id);
+            // Large uploads are listed without their files
+            const missing = !entry.urls && !entry.files;
+            return html`
+              <li>
+                <button
+                  class="entry"
+                  ?disabled=${missing}
+                  @click=${() => this.openEntry(entry)}
+                  title=${missing
+                    ? `${entry.name}\nToo large to keep, open the file again`
+                    : (entry.urls?.join("\n") ?? entry.name)}
+                >
+                  <div class="thumbnail">
+                    ${thumbnail
+                      ? html`<img src=${thumbnail} alt="" />`
+                      : boxIcon(48)}
+                  </div>
+                  <span class="name">${entry.name}</span>
+                  <span class="details">
+                    ${formatBytes(entry.fileSize)} ·
+                    ${dateFormat.format(entry.openedAt)}
+                  </span>
+                </button>
+                <div class="entry-actions">
+                  <button
+                    class=${entry.pinned ? "active" : ""}
+                    @click=${(e: Event) => this.togglePinned(e, entry)}
+                    title=${entry.pinned ? "Unpin" : "Pin"}
+                  >
+                    ${pinIcon()}
+                  </button>
+                  <button
+                    @click=${(e: Event) => this.removeEntry(e, entry)}
+                    title="Remove from history"
+                  >
+                    ${trashIcon()}
+                  </button>
+                </div>
+              </li>
+            `;
+          })}
+        </ul>
+      </div>
+    `;
+  }
+
+  static styles = css`
+    :host {
+      display: block;
+    }
+
+    .recent-models {
+      background: white;
+      border-radius: 12px;
+      padding: 1.5rem;
+      box-shadow: 0 10px 30px rgba(0, 0, 0, 0.2);
+    }
+
+    .recent-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin-bottom: 1rem;
+    }
+
+    h2 {
+      margin: 0;
+      font-size: 1.25rem;
+      color: #333;
+    }
+
+    .clear-button {
+      padding: 0.5rem 1rem;
+      background: #f0f0f0;
+      color: #333;
+      border: none;
+      border-radius: 6px;
+      font-weight: 600;
+      cursor: pointer;
+    }
+
+    .clear-button:hover {
+      background: #e0e0e0;
+    }
+
+    ul {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(180px, 1fr));
+      gap: 1rem;
+      margin: 0;
+      padding: 0;
+      list-style: none;
+    }
+
+    li {
+      position: relative;
+    }
+
+    .entry {
+      display: flex;
+      flex-direction: column;
+      width: 100%;
+      padding: 0;
+      background: #f8f9fa;
+      border: 2px solid transparent;
+      border-radius: 8px;
+      overflow: hidden;
+      text-align: left;
+      font: inherit;
+      cursor: pointer;
+      transition: border-color 0.2s;
+    }
+
+    .entry:hover:not(:disabled) {
+      border-color: #667eea;
+    }
+
+    .entry:disabled {
+      cursor: default;
+      color: inherit;
+    }
+
+    .thumbnail {
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      aspect-ratio: 4 / 3;
+      background: #a0a0a0;
+      color: rgba(255, 255, 255, 0.6);
+    }
+
+    .thumbnail img {
+      width: 100%;
+      height: 100%;
+      object-fit: cover;
+    }
+
+    .name {
+      padding: 0.5rem 0.75rem 0;
+      overflow: hidden;
+      color: #333;
+      font-weight: 600;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .details {
+      padding: 0.25rem 0.75rem 0.5rem;
+      color: #666;
+      font-size: 0.8rem;
+    }
+
+    .entry-actions {
+      position: absolute;
+      top: 0.5rem;
+      right: 0.5rem;
+      display: flex;
+      gap: 0.25rem;
+    }
+
+    .entry-actions button {
+      display: flex;
+      padding: 0.25rem;
+      background: rgba(255, 255, 255, 0.9);
+      color: #333;
+      border: none;
+      border-radius: 6px;
+      cursor: pointer;
+    }
+
+    .entry-actions button:hover {
+      background: white;
+    }
+
+    .entry-actions button.active {
+      background: #1a5fb4;
+      color: white;
+    }
+
+    .entry-actions svg {
+      width: 18px;
+      height: 18px;
+    }
+  `;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "recent-models": RecentModels;
+  }
+}
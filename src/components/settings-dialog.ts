@@ -1,16 +1,28 @@
 /**
  * Settings Dialog Component
  *
- * A modal dialog for configuring application settings, including CORS proxy
+ * A modal dialog for configuring application settings, including CORS proxy,
+ * printer, overhang angle, appearance, the offline model cache and Blossom
+ * servers
  */
 
 import { LitElement, css, html } from "lit";
 import { customElement, state } from "lit/decorators.js";
 import {
+  type AppSettings,
   getSettings,
   updateSettings,
   resetSettings,
 } from "../services/settings";
+import {
+  clearModelCache,
+  getModelCacheUsage,
+  type ModelCacheUsage,
+  trimModelCache,
+} from "../services/model-cache";
+import { PRINTER_PRESETS, type PrinterSize } from "../utils/printers";
+import { DEFAULT_BLOSSOM_SERVERS, parseBlossomServers } from "../utils/blossom";
+import { formatBytes } from "../utils/mesh-stats";
 import { closeIcon } from "./icons";
 
 @customElement("settings-dialog")
@@ -21,6 +33,46 @@ export class SettingsDialog extends LitElement {
   @state()
   private corsProxy = "";
 
+  @state()
+  private printer = "";
+
+  @state()
+  private customPrinter: PrinterSize = { x: 200, y: 200, z: 200 };
+
+  @state()
+  private overhangAngle = 45;
+
+  @state()
+  private modelColor = "#1a5fb4";
+
+  @state()
+  private background = "#a0a0a0";
+
+  @state()
+  private showGrid = true;
+
+  @state()
+  private showFloor = true;
+
+  @state()
+  private fog = true;
+
+  @state()
+  private fileColors = true;
+
+  @state()
+  private modelCache = true;
+
+  @state()
+  private modelCacheSize = 500;
+
+  @state()
+  private cacheUsage?: ModelCacheUsage;
+
+  /** Blossom servers, one per line */
+  @state()
+  private blossomServers = "";
+
   @state()
   private hasChanges = false;
 
@@ -35,6 +87,7 @@ export class SettingsDialog extends LitElement {
   open(): void {
     this.isOpen = true;
     this.loadSettings();
+    this.loadCacheUsage();
   }
 
   /**
@@ -48,6 +101,18 @@ export class SettingsDialog extends LitElement {
   private loadSettings(): void {
     const settings = getSettings();
     this.corsProxy = settings.corsProxy;
+    this.printer = settings.printer;
+    this.customPrinter = { ...settings.customPrinter };
+    this.overhangAngle = settings.overhangAngle;
+    this.modelColor = settings.modelColor;
+    this.background = settings.background;
+    this.showGrid = settings.showGrid;
+    this.showFloor = settings.showFloor;
+    this.fog = settings.fog;
+    this.fileColors = settings.fileColors;
+    this.modelCache = settings.modelCache;
+    this.modelCacheSize = settings.modelCacheSize;
+    this.blossomServers = settings.blossomServers.join("\n");
     this.hasChanges = false;
   }
 
@@ -57,8 +122,103 @@ export class SettingsDialog extends LitElement {
     this.hasChanges = true;
   }
 
+  private handlePrinterChange(e: Event): void {
+    const select = e.target as HTMLSelectElement;
+    this.printer = select.value;
+    this.hasChanges = true;
+  }
+
+  private handleCustomPrinterInput(axis: keyof PrinterSize, e: Event): void {
+    const input = e.target as HTMLInputElement;
+    const value = Number(input.value);
+    if (!(value > 0)) return;
+
+    this.customPrinter = { ...this.customPrinter, [axis]: value };
+    this.hasChanges = true;
+  }
+
+  private handleOverhangAngleInput(e: Event): void {
+    const input = e.target as HTMLInputElement;
+    const value = Number(input.value);
+    if (!(value >= 0 && value <= 90)) return;
+
+    this.overhangAngle = value;
+    this.hasChanges = true;
+  }
+
+  private handleColorInput(key: "modelColor" | "background", e: Event): void {
+    const input = e.target as HTMLInputElement;
+    this[key] = input.value;
+    this.hasChanges = true;
+  }
+
+  private handleToggle(
+    key: keyof Pick<
+      AppSettings,
+      "showGrid" | "showFloor" | "fog" | "fileColors" | "modelCache"
+    >,
+    e: Event,
+  ): void {
+    const input = e.target as HTMLInputElement;
+    this[key] = input.checked;
+    this.hasChanges = true;
+  }
+
+  private handleCacheSizeInput(e: Event): void {
+    const input = e.target as HTMLInputElement;
+    const value = Number(input.value);
+    if (!(value >= 0)) return;
+
+    this.modelCacheSize = value;
+    this.hasChanges = true;
+  }
+
+  private handleBlossomServersInput(e: Event): void {
+    const textarea = e.target as HTMLTextAreaElement;
+    this.blossomServers = textarea.value;
+    this.hasChanges = true;
+  }
+
+  private async loadCacheUsage(): Promise<void> {
+    try {
+      this.cacheUsage = await getModelCacheUsage();
+    } catch (error) {
+      console.error("Error reading model cache:", error);
+      this.cacheUsage = undefined;
+    }
+  }
+
+  private async handleClearCache(): Promise<void> {
+    try {
+      await clearModelCache();
+    } catch (error) {
+      console.error("Error clearing model cache:", error);
+    }
+    this.loadCacheUsage();
+  }
+
   private handleSave(): void {
-    updateSettings({ corsProxy: this.corsProxy });
+    const blossomServers = parseBlossomServers(this.blossomServers);
+    updateSettings({
+      corsProxy: this.corsProxy,
+      printer: this.printer,
+      customPrinter: this.customPrinter,
+      overhangAngle: this.overhangAngle,
+      modelColor: this.modelColor,
+      background: this.background,
+      showGrid: this.showGrid,
+      showFloor: this.showFloor,
+      fog: this.fog,
+      fileColors: this.fileColors,
+      modelCache: this.modelCache,
+      modelCacheSize: this.modelCacheSize,
+      blossomServers:
+        blossomServers.length > 0 ? blossomServers : DEFAULT_BLOSSOM_SERVERS,
+    });
+    // Apply a smaller size limit right away
+    trimModelCache().catch((error) =>
+      console.error("Error trimming model cache:", error),
+    );
     this.hasChanges = false;
     this.close();
 
@@ -171,6 +331,188 @@ export class SettingsDialog extends LitElement {
                 </div>
               </div>
             </div>
+
+            <div class="setting-group">
+              <label for="blossom-servers">
+                <strong>Blossom servers</strong>
+                <span class="help-text">
+                  Servers to download models shared by their SHA-256 hash from,
+                  one per line. They are tried in order until one has the file.
+                </span>
+              </label>
+              <textarea
+                id="blossom-servers"
+                rows="3"
+                .value=${this.blossomServers}
+                @input=${this.handleBlossomServersInput}
+                placeholder=${DEFAULT_BLOSSOM_SERVERS.join("\n")}
+              ></textarea>
+            </div>
+
+            <div class="setting-group">
+              <label for="printer">
+                <strong>Printer</strong>
+                <span class="help-text">
+                  Shows the printer's bed and build volume under the model and
+                  warns when the model doesn't fit.
+                </span>
+              </label>
+              <select
+                id="printer"
+                .value=${this.printer}
+                @change=${this.handlePrinterChange}
+              >
+                <option value="" ?selected=${this.printer === ""}>None</option>
+                ${Object.entries(PRINTER_PRESETS).map(
+                  ([id, preset]) => html`
+                    <option value=${id} ?selected=${this.printer === id}>
+                      ${preset.name} (${preset.x} × ${preset.y} × ${preset.z}
+                      mm)
+                    </option>
+                  `,
+                )}
+                <option value="custom" ?selected=${this.printer === "custom"}>
+                  Custom
+                </option>
+              </select>
+
+              ${this.printer === "custom"
+                ? html`
+                    <div class="printer-size">
+                      ${(["x", "y", "z"] as const).map(
+                        (axis) => html`
+                          <label>
+                            ${axis.toUpperCase()} (mm)
+                            <input
+                              type="number"
+                              min="1"
+                              .value=${String(this.customPrinter[axis])}
+                              @input=${(e: Event) =>
+                                this.handleCustomPrinterInput(axis, e)}
+                            />
+                          </label>
+                        `,
+                      )}
+                    </div>
+                  `
+                : null}
+            </div>
+
+            <div class="setting-group">
+              <label for="overhang-angle">
+                <strong>Overhang angle (°)</strong>
+                <span class="help-text">
+                  Faces tilted further than this from vertical are marked as
+                  needing support in the Overhangs view.
+                </span>
+              </label>
+              <input
+                id="overhang-angle"
+                type="number"
+                min="0"
+                max="90"
+                .value=${String(this.overhangAngle)}
+                @input=${this.handleOverhangAngleInput}
+              />
+            </div>
+
+            <div class="setting-group">
+              <label>
+                <strong>Appearance</strong>
+                <span class="help-text">
+                  Colors of the viewer and which parts of the scene are shown.
+                </span>
+              </label>
+              <div class="appearance-colors">
+                <label>
+                  Model color
+                  <input
+                    type="color"
+                    .value=${this.modelColor}
+                    @input=${(e: Event) =>
+                      this.handleColorInput("modelColor", e)}
+                  />
+                </label>
+                <label>
+                  Background
+                  <input
+                    type="color"
+                    .value=${this.background}
+                    @input=${(e: Event) =>
+                      this.handleColorInput("background", e)}
+                  />
+                </label>
+              </div>
+              <div class="appearance-toggles">
+                ${(
+                  [
+                    ["showGrid", "Grid", this.showGrid],
+                    ["showFloor", "Floor", this.showFloor],
+                    ["fog", "Fog", this.fog],
+                    ["fileColors", "Colors from file", this.fileColors],
+                  ] as const
+                ).map(
+                  ([key, label, checked]) => html`
+                    <label>
+                      <input
+                        type="checkbox"
+                        .checked=${checked}
+                        @change=${(e: Event) => this.handleToggle(key, e)}
+                      />
+                      ${label}
+                    </label>
+                  `,
+                )}
+              </div>
+            </div>
+
+            <div class="setting-group">
+              <label for="model-cache-size">
+                <strong>Offline cache</strong>
+                <span class="help-text">
+                  Keeps downloaded models in the browser so they open quickly
+                  and without a connection. Cached models are checked for
+                  changes on the server each time they are opened, and the least
+                  recently used are removed when the cache is full.
+                </span>
+              </label>
+              <div class="appearance-toggles cache-options">
+                <label>
+                  <input
+                    type="checkbox"
+                    .checked=${this.modelCache}
+                    @change=${(e: Event) => this.handleToggle("modelCache", e)}
+                  />
+                  Cache downloaded models
+                </label>
+              </div>
+              <label class="cache-size">
+                Size limit (MB)
+                <input
+                  id="model-cache-size"
+                  type="number"
+                  min="0"
+                  .value=${String(this.modelCacheSize)}
+                  @input=${this.handleCacheSizeInput}
+                />
+              </label>
+              <div class="cache-usage">
+                <span>
+                  ${this.cacheUsage
+                    ? `${this.cacheUsage.count} models, ${formatBytes(
+                        this.cacheUsage.size,
+                      )} used`
+                    : "Cache unavailable"}
+                </span>
+                <button
+                  class="btn-secondary"
+                  @click=${this.handleClearCache}
+                  ?disabled=${!this.cacheUsage?.count}
+                >
+                  Clear cache
+                </button>
+              </div>
+            </div>
           </div>
 
           <div class="dialog-footer">
@@ -306,7 +648,8 @@ export class SettingsDialog extends LitElement {
       font-weight: normal;
     }
 
-    input[type="text"] {
+    input[type="text"],
+    textarea {
       width: 100%;
       padding: 0.75rem;
       border: 2px solid #e0e0e0;
@@ -317,11 +660,106 @@ export class SettingsDialog extends LitElement {
       box-sizing: border-box;
     }
 
-    input[type="text"]:focus {
+    textarea {
+      resize: vertical;
+    }
+
+    input[type="text"]:focus,
+    textarea:focus {
+      outline: none;
+      border-color: #667eea;
+    }
+
+    select,
+    input[type="number"] {
+      width: 100%;
+      padding: 0.75rem;
+      border: 2px solid #e0e0e0;
+      border-radius: 8px;
+      font-size: 1rem;
+      background: white;
+      transition: border-color 0.2s;
+      box-sizing: border-box;
+    }
+
+    select:focus,
+    input[type="number"]:focus {
       outline: none;
       border-color: #667eea;
     }
 
+    .printer-size {
+      display: grid;
+      grid-template-columns: repeat(3, 1fr);
+      gap: 0.75rem;
+      margin-top: 0.75rem;
+    }
+
+    .printer-size label {
+      margin: 0;
+      font-size: 0.9rem;
+      color: #666;
+    }
+
+    .appearance-colors,
+    .appearance-toggles {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 1.5rem;
+    }
+
+    .appearance-toggles {
+      margin-top: 0.75rem;
+    }
+
+    .appearance-colors label,
+    .appearance-toggles label {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      margin: 0;
+      font-size: 0.9rem;
+      color: #666;
+    }
+
+    input[type="color"] {
+      width: 2.5rem;
+      height: 2rem;
+      padding: 0;
+      border: 2px solid #e0e0e0;
+      border-radius: 6px;
+      background: none;
+      cursor: pointer;
+    }
+
+    .cache-options {
+      margin-bottom: 0.75rem;
+    }
+
+    .cache-size {
+      font-size: 0.9rem;
+      color: #666;
+    }
+
+    .cache-size input {
+      margin-top: 0.25rem;
+    }
+
+    .cache-usage {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 1rem;
+      margin-top: 0.75rem;
+      font-size: 0.9rem;
+      color: #666;
+    }
+
+    .cache-usage button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
     .info-box {
       margin-top: 1rem;
       padding: 1rem;
@@ -0,0 +1,19 @@
+import { AMFLoader } from "three-stdlib";
+import { isZip, readHead, readTail } from "./magic";
+import { partsFromObject } from "./parts";
+import type { ModelLoader } from "./types";
+
+export const amfLoader: ModelLoader = {
+  name: "AMF",
+  extensions: ["amf"],
+  mimeTypes: ["application/x-amf", "model/amf"],
+  test: (bytes) =>
+    /<amf[\s>]/.test(readHead(bytes, 1024)) ||
+    (isZip(bytes) && /\.amf/i.test(readTail(bytes))),
+  parse(buffer) {
+    const parts = partsFromObject(new AMFLoader().parse(buffer), "Object");
+    if (parts.length === 0)
+      throw new Error("AMF file does not contain any objects");
+    return parts;
+  },
+};
@@ -0,0 +1,107 @@
+/**
+ * ZIP Archives
+ *
+ * Model sites often bundle several model files with images and a readme in
+ * a ZIP archive. These helpers list the files inside and extract the models.
+ */
+
+import { unzipSync } from "three/examples/jsm/libs/fflate.module.js";
+
+export const ARCHIVE_EXTENSIONS = ["zip"];
+
+export const ARCHIVE_MIME_TYPES = [
+  "application/zip",
+  "application/x-zip-compressed",
+];
+
+export interface ArchiveFile {
+  /** Path of the file inside the archive */
+  path: string;
+  buffer: ArrayBuffer;
+}
+
+export interface ArchiveContents {
+  /** Paths of every model file in the archive, sorted */
+  models: string[];
+  /** The extracted model files */
+  files: ArchiveFile[];
+}
+
+// Folders, hidden files and the resource forks macOS adds to archives
+function isSkipped(path: string): boolean {
+  return (
+    path.endsWith("/") ||
+    path.startsWith("__MACOSX/") ||
+    path.split("/").some((segment) => segment.startsWith("."))
+  );
+}
+
+function hasExtension(path: string, extensions: string[]): boolean {
+  const file = path.slice(path.lastIndexOf("/") + 1);
+  const dot = file.lastIndexOf(".");
+  return dot > 0 && extensions.includes(file.slice(dot + 1).toLowerCase());
+}
+
+/**
+ * Lists the model files with one of the given extensions in a ZIP archive
+ * and extracts them, or only the one at `path` when given
+ */
+export function extractArchive(
+  buffer: ArrayBuffer,
+  extensions: string[],
+  path?: string,
+): ArchiveContents {
+  const models: string[] = [];
+  const extracted = unzipSync(new Uint8Array(buffer), {
+    filter: (file) => {
+      if (isSkipped(file.name) || !hasExtension(file.name, extensions)) {
+        return false;
+      }
+      models.push(file.name);
+      return path === undefined || file.name === path;
+    },
+  });
+
+  if (models.length === 0) {
+    throw new Error("The archive doesn't contain any model files");
+  }
+  if (path !== undefined && !extracted[path]) {
+    throw new Error(`The archive doesn't contain ${path}`);
+  }
+
+  models.sort((a, b) => a.localeCompare(b));
+  const files = Object.entries(extracted)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, data]) => ({
+      path: name,
+      buffer: data.buffer.slice(
+        data.byteOffset,
+        data.byteOffset + data.byteLength,
+      ) as ArrayBuffer,
+    }));
+
+  return { models, files };
+}
+
+/**
+ * Splits a model URL into the URL of a ZIP archive and the path of one file
+ * inside it, given after a "#" like "models.zip#parts/bracket.stl"
+ */
+export function splitArchiveUrl(url: string): [string, string | undefined] {
+  const hash = url.indexOf("#");
+  if (hash === -1) return [url, undefined];
+
+  const path = url.slice(hash + 1);
+  try {
+    return [url.slice(0, hash), path ? decodeURIComponent(path) : undefined];
+  } catch {
+    return [url.slice(0, hash), path];
+  }
+}
+
+/**
+ * Returns the URL that opens a single file of an archive
+ */
+export function getArchiveEntryUrl(url: string, path: string): string {
+  return `${splitArchiveUrl(url)[0]}#${encodeURIComponent(path)}`;
+}
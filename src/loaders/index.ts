@@ -0,0 +1,191 @@
+/**
+ * Model Loaders
+ *
+ * A registry of model file parsers. A loader is picked for each file by its
+ * extension, then its MIME type, then by sniffing the file contents.
+ */
+
+import { computeModelStats, type ModelStats } from "../utils/mesh-stats";
+import { amfLoader } from "./amf";
+import {
+  ARCHIVE_EXTENSIONS,
+  ARCHIVE_MIME_TYPES,
+  type ArchiveContents,
+  extractArchive,
+} from "./archive";
+import { isZip } from "./magic";
+import { objLoader } from "./obj";
+import { prepareParts } from "./parts";
+import { plyLoader } from "./ply";
+import { stlLoader } from "./stl";
+import { threeMFLoader } from "./three-mf";
+import type { ModelLoader, ModelPart } from "./types";
+import { extractInWorker, parseInWorker } from "./worker";
+
+export type { ModelLoader, ModelPart } from "./types";
+export { UNCOLORED_ATTRIBUTE } from "./types";
+export {
+  ARCHIVE_EXTENSIONS,
+  type ArchiveContents,
+  getArchiveEntryUrl,
+  splitArchiveUrl,
+} from "./archive";
+
+// Loaders are checked in order, custom loaders are added to the front
+const loaders: ModelLoader[] = [
+  threeMFLoader,
+  amfLoader,
+  plyLoader,
+  stlLoader,
+  objLoader,
+];
+
+// Built-in loaders that don't need the DOM and can run in the parse worker
+const workerLoaders = new Set<ModelLoader>([stlLoader, objLoader, plyLoader]);
+
+export interface ModelSource {
+  /** File name or URL, used for the extension */
+  name?: string;
+  /** MIME type reported by the server or file */
+  mimeType?: string;
+}
+
+/**
+ * Registers a loader, taking precedence over the built-in loaders
+ */
+export function registerLoader(loader: ModelLoader): void {
+  unregisterLoader(loader.name);
+  loaders.unshift(loader);
+}
+
+/**
+ * Removes a loader by name
+ */
+export function unregisterLoader(name: string): void {
+  const index = loaders.findIndex((l) => l.name === name);
+  if (index !== -1) loaders.splice(index, 1);
+}
+
+/**
+ * Returns the registered loaders in the order they are checked
+ */
+export function getLoaders(): ModelLoader[] {
+  return [...loaders];
+}
+
+/**
+ * Returns all file extensions supported by the registered loaders
+ */
+export function getSupportedExtensions(): string[] {
+  return [...new Set(loaders.flatMap((l) => l.extensions))];
+}
+
+/**
+ * Returns the lower case extension of a file name or URL
+ */
+export function getExtension(name: string): string | undefined {
+  const path = name.split(/[?#]/)[0];
+  const file = path.slice(path.lastIndexOf("/") + 1);
+  const dot = file.lastIndexOf(".");
+  return dot > 0 ? file.slice(dot + 1).toLowerCase() : undefined;
+}
+
+/**
+ * Picks the loader for a file, falling back to STL when nothing matches
+ * since its binary variant has no reliable signature
+ */
+export function findLoader(
+  buffer: ArrayBuffer,
+  source: ModelSource = {},
+): ModelLoader {
+  const extension = source.name && getExtension(source.name);
+  if (extension) {
+    const loader = loaders.find((l) => l.extensions.includes(extension));
+    if (loader) return loader;
+  }
+
+  const mimeType = source.mimeType?.split(";")[0].trim().toLowerCase();
+  if (mimeType) {
+    const loader = loaders.find((l) => l.mimeTypes?.includes(mimeType));
+    if (loader) return loader;
+  }
+
+  const bytes = new Uint8Array(buffer);
+  return loaders.find((l) => l.test?.(bytes)) ?? stlLoader;
+}
+
+/**
+ * Returns true when a file is a ZIP archive of models rather than a model
+ * format that happens to be zipped, like 3MF
+ */
+export function isArchive(
+  buffer: ArrayBuffer,
+  source: ModelSource = {},
+): boolean {
+  const extension = source.name && getExtension(source.name);
+  if (extension && ARCHIVE_EXTENSIONS.includes(extension)) return true;
+  if (extension && getSupportedExtensions().includes(extension)) return false;
+
+  const mimeType = source.mimeType?.split(";")[0].trim().toLowerCase();
+  if (mimeType && ARCHIVE_MIME_TYPES.includes(mimeType)) return true;
+
+  const bytes = new Uint8Array(buffer);
+  return isZip(bytes) && !loaders.some((l) => l.test?.(bytes));
+}
+
+/**
+ * Extracts the files of a ZIP archive that a registered loader supports,
+ * or only the one at `path` when given
+ *
+ * Extraction runs in a Web Worker when possible. Like parseModel(), the
+ * buffer is transferred to the worker and can't be used afterwards.
+ */
+export async function extractModels(
+  buffer: ArrayBuffer,
+  path?: string,
+  signal?: AbortSignal,
+): Promise<ArchiveContents> {
+  const extensions = getSupportedExtensions();
+  const contents = await extractInWorker(buffer, extensions, path, signal);
+  if (contents) return contents;
+
+  const extracted = extractArchive(buffer, extensions, path);
+  signal?.throwIfAborted();
+  return extracted;
+}
+
+export interface ParsedModel {
+  parts: ModelPart[];
+  stats: ModelStats;
+}
+
+/**
+ * Parses a model file into its parts and computes its statistics
+ *
+ * Built-in loaders run in a Web Worker when possible. Note that the buffer
+ * is transferred to the worker and can't be used afterwards.
+ */
+export async function parseModel(
+  buffer: ArrayBuffer,
+  source: ModelSource = {},
+  signal?: AbortSignal,
+): Promise<ParsedModel> {
+  const loader = findLoader(buffer, source);
+  const fileSize = buffer.byteLength;
+
+  if (workerLoaders.has(loader)) {
+    const result = await parseInWorker(loader.name, buffer, signal);
+    if (result) return result;
+  }
+
+  const parts = prepareParts(await loader.parse(buffer));
+  signal?.throwIfAborted();
+
+  return {
+    parts,
+    stats: computeModelStats(
+      parts.map((part) => part.geometry),
+      fileSize,
+    ),
+  };
+}
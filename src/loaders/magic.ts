@@ -0,0 +1,39 @@
+/**
+ * Magic Byte Helpers
+ *
+ * Small helpers used by loaders to recognize file formats from their contents
+ */
+
+const decoder = new TextDecoder("latin1");
+
+/**
+ * Returns true when the bytes start with the given ASCII string
+ */
+export function startsWith(bytes: Uint8Array, text: string): boolean {
+  if (bytes.length < text.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+/**
+ * Decodes the start of a file as text for format sniffing
+ */
+export function readHead(bytes: Uint8Array, length = 4096): string {
+  return decoder.decode(bytes.subarray(0, length));
+}
+
+/**
+ * Decodes the end of a file as text, where ZIP archives keep their file list
+ */
+export function readTail(bytes: Uint8Array, length = 65536): string {
+  return decoder.decode(bytes.subarray(Math.max(0, bytes.length - length)));
+}
+
+/**
+ * Returns true when the bytes start with a ZIP local file header
+ */
+export function isZip(bytes: Uint8Array): boolean {
+  return startsWith(bytes, "PK\x03\x04");
+}
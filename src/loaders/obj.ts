@@ -0,0 +1,22 @@
+import { OBJLoader } from "three-stdlib";
+import { readHead } from "./magic";
+import { partsFromObject } from "./parts";
+import type { ModelLoader } from "./types";
+
+export const objLoader: ModelLoader = {
+  name: "OBJ",
+  extensions: ["obj"],
+  mimeTypes: ["model/obj"],
+  test: (bytes) => /^v\s+-?[\d.]/m.test(readHead(bytes)),
+  parse(buffer) {
+    const group = new OBJLoader().parse(new TextDecoder().decode(buffer));
+
+    // OBJ files are conventionally Y-up, rotate them to match the Z-up STL convention
+    group.rotation.x = Math.PI / 2;
+
+    const parts = partsFromObject(group, "Object");
+    if (parts.length === 0)
+      throw new Error("OBJ file does not contain any meshes");
+    return parts;
+  },
+};
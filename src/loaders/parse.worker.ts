@@ -0,0 +1,82 @@
+/**
+ * Model Parse Worker
+ *
+ * Parses model files with the built-in loaders off the main thread and
+ * computes normals, bounds and statistics before handing the geometry back.
+ * Also extracts the model files from ZIP archives.
+ */
+
+import { computeModelStats, type ModelStats } from "../utils/mesh-stats";
+import { type ArchiveContents, extractArchive } from "./archive";
+import { objLoader } from "./obj";
+import { prepareParts } from "./parts";
+import { plyLoader } from "./ply";
+import { type SerializedPart, serializeParts } from "./serialize";
+import { stlLoader } from "./stl";
+import type { ModelLoader } from "./types";
+
+export type ParseRequest =
+  | { type: "parse"; loader: string; buffer: ArrayBuffer }
+  | {
+      type: "extract";
+      buffer: ArrayBuffer;
+      /** Extensions of the model files to extract */
+      extensions: string[];
+      path?: string;
+    };
+
+export type ParseResponse =
+  | { type: "result"; parts: SerializedPart[]; stats: ModelStats }
+  | { type: "archive"; contents: ArchiveContents }
+  | { type: "error"; message: string };
+
+const loaders: ModelLoader[] = [stlLoader, objLoader, plyLoader];
+
+function extract(request: Extract<ParseRequest, { type: "extract" }>) {
+  const contents = extractArchive(
+    request.buffer,
+    request.extensions,
+    request.path,
+  );
+  const response: ParseResponse = { type: "archive", contents };
+  self.postMessage(response, {
+    transfer: contents.files.map((file) => file.buffer),
+  });
+}
+
+self.onmessage = async (event: MessageEvent<ParseRequest>) => {
+  try {
+    if (event.data.type === "extract") {
+      extract(event.data);
+      return;
+    }
+
+    const { loader: name, buffer } = event.data;
+    const loader = loaders.find((l) => l.name === name);
+    if (!loader) throw new Error(`Loader ${name} is not available in worker`);
+
+    const fileSize = buffer.byteLength;
+    const parts = prepareParts(await loader.parse(buffer));
+    const stats = computeModelStats(
+      parts.map((part) => part.geometry),
+      fileSize,
+    );
+
+    const serialized = serializeParts(parts);
+    const response: ParseResponse = {
+      type: "result",
+      parts: serialized.parts,
+      stats,
+    };
+    self.postMessage(response, { transfer: serialized.transfer });
+  } catch (error) {
+    const response: ParseResponse = {
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    };
+    self.postMessage(response);
+  }
+};
+
+// Let the main thread know the worker started before it transfers the file
+self.postMessage("ready");
@@ -0,0 +1,95 @@
+/**
+ * Model Part Helpers
+ *
+ * Converts the scene graphs returned by three.js loaders into flat lists of
+ * model parts with their transforms baked into the geometry.
+ */
+
+import {
+  BufferAttribute,
+  type BufferGeometry,
+  Color,
+  type Material,
+  Mesh,
+  type Object3D,
+} from "three";
+import type { ModelPart } from "./types";
+
+function getMaterialColor(material: Material): Color | undefined {
+  return "color" in material && material.color instanceof Color
+    ? material.color
+    : undefined;
+}
+
+/**
+ * Writes each geometry group's material color into a vertex color attribute
+ */
+function bakeGroupColors(geometry: BufferGeometry, materials: Material[]) {
+  const position = geometry.getAttribute("position");
+  const colors = new Float32Array(position.count * 3);
+  const fallback = new Color(0xffffff);
+
+  for (const group of geometry.groups) {
+    const color =
+      getMaterialColor(materials[group.materialIndex ?? 0]) ?? fallback;
+    const end = Math.min(group.start + group.count, position.count);
+    for (let i = group.start; i < end; i++) {
+      colors[i * 3] = color.r;
+      colors[i * 3 + 1] = color.g;
+      colors[i * 3 + 2] = color.b;
+    }
+  }
+
+  geometry.setAttribute("color", new BufferAttribute(colors, 3));
+}
+
+/**
+ * Flattens every mesh in an object tree into a model part
+ */
+export function partsFromObject(
+  root: Object3D,
+  fallbackName = "Part",
+): ModelPart[] {
+  const parts: ModelPart[] = [];
+  root.updateMatrixWorld(true);
+
+  root.traverse((child) => {
+    if (!(child instanceof Mesh)) return;
+
+    // Bake the object transform and drop the index so every part is a plain triangle soup
+    let geometry: BufferGeometry = child.geometry.clone();
+    geometry.applyMatrix4(child.matrixWorld);
+    if (geometry.index) geometry = geometry.toNonIndexed();
+
+    const materials: Material[] = Array.isArray(child.material)
+      ? child.material
+      : [child.material];
+
+    let color: Color | undefined;
+    if (Array.isArray(child.material) && geometry.groups.length > 0) {
+      bakeGroupColors(geometry, materials);
+    } else if (!geometry.getAttribute("color")) {
+      color = getMaterialColor(materials[0])?.clone();
+    }
+
+    parts.push({
+      name: child.name || `${fallbackName} ${parts.length + 1}`,
+      geometry,
+      color,
+    });
+  });
+
+  return parts;
+}
+
+/**
+ * Computes any missing normals and bounds so parts are ready to render
+ */
+export function prepareParts(parts: ModelPart[]): ModelPart[] {
+  for (const { geometry } of parts) {
+    if (!geometry.getAttribute("normal")) geometry.computeVertexNormals();
+    if (!geometry.boundingBox) geometry.computeBoundingBox();
+    if (!geometry.boundingSphere) geometry.computeBoundingSphere();
+  }
+  return parts;
+}
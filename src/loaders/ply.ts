@@ -0,0 +1,15 @@
+import { PLYLoader } from "three-stdlib";
+import { startsWith } from "./magic";
+import type { ModelLoader } from "./types";
+
+export const plyLoader: ModelLoader = {
+  name: "PLY",
+  extensions: ["ply"],
+  mimeTypes: ["model/x-ply", "application/ply"],
+  test: (bytes) => startsWith(bytes, "ply\n") || startsWith(bytes, "ply\r\n"),
+  parse(buffer) {
+    const geometry = new PLYLoader().parse(buffer);
+    if (!geometry.index) throw new Error("PLY file does not contain any faces");
+    return [{ name: "Model", geometry }];
+  },
+};
@@ -0,0 +1,117 @@
+/**
+ * Part Serialization
+ *
+ * Converts model parts to and from plain objects that can be posted between
+ * a Web Worker and the main thread, transferring the underlying buffers.
+ */
+
+import {
+  Box3,
+  BufferAttribute,
+  BufferGeometry,
+  Color,
+  Sphere,
+  type TypedArray,
+  Vector3,
+} from "three";
+import type { ModelPart } from "./types";
+
+interface SerializedAttribute {
+  array: TypedArray;
+  itemSize: number;
+  normalized: boolean;
+}
+
+export interface SerializedPart {
+  name: string;
+  attributes: Record<string, SerializedAttribute>;
+  index?: TypedArray;
+  color?: [number, number, number];
+  boundingBox?: [number, number, number, number, number, number];
+  boundingSphere?: [number, number, number, number];
+}
+
+/**
+ * Serializes parts and collects the buffers that can be transferred
+ */
+export function serializeParts(parts: ModelPart[]): {
+  parts: SerializedPart[];
+  transfer: ArrayBuffer[];
+} {
+  const transfer = new Set<ArrayBuffer>();
+
+  const serialized = parts.map(({ name, geometry, color }) => {
+    const attributes: Record<string, SerializedAttribute> = {};
+    for (const [key, attribute] of Object.entries(geometry.attributes)) {
+      if (!(attribute instanceof BufferAttribute)) continue;
+      attributes[key] = {
+        array: attribute.array,
+        itemSize: attribute.itemSize,
+        normalized: attribute.normalized,
+      };
+      transfer.add(attribute.array.buffer as ArrayBuffer);
+    }
+
+    const index = geometry.index?.array;
+    if (index) transfer.add(index.buffer as ArrayBuffer);
+
+    const { boundingBox: box, boundingSphere: sphere } = geometry;
+
+    return {
+      name,
+      attributes,
+      index,
+      color: color && ([color.r, color.g, color.b] as [number, number, number]),
+      boundingBox: box
+        ? ([
+            ...box.min.toArray(),
+            ...box.max.toArray(),
+          ] as SerializedPart["boundingBox"])
+        : undefined,
+      boundingSphere: sphere
+        ? ([
+            ...sphere.center.toArray(),
+            sphere.radius,
+          ] as SerializedPart["boundingSphere"])
+        : undefined,
+    };
+  });
+
+  return { parts: serialized, transfer: [...transfer] };
+}
+
+/**
+ * Rebuilds model parts from their serialized form
+ */
+export function deserializeParts(parts: SerializedPart[]): ModelPart[] {
+  return parts.map((part) => {
+    const geometry = new BufferGeometry();
+    for (const [key, { array, itemSize, normalized }] of Object.entries(
+      part.attributes,
+    )) {
+      geometry.setAttribute(
+        key,
+        new BufferAttribute(array, itemSize, normalized),
+      );
+    }
+    if (part.index) geometry.setIndex(new BufferAttribute(part.index, 1));
+
+    if (part.boundingBox) {
+      const [x1, y1, z1, x2, y2, z2] = part.boundingBox;
+      geometry.boundingBox = new Box3(
+        new Vector3(x1, y1, z1),
+        new Vector3(x2, y2, z2),
+      );
+    }
+    if (part.boundingSphere) {
+      const [x, y, z, radius] = part.boundingSphere;
+      geometry.boundingSphere = new Sphere(new Vector3(x, y, z), radius);
+    }
+
+    return {
+      name: part.name,
+      geometry,
+      color: part.color && new Color(...part.color),
+    };
+  });
+}
@@ -0,0 +1,114 @@
+import { BufferAttribute, Color } from "three";
+import { STLLoader } from "three-stdlib";
+import { readHead } from "./magic";
+import { type ModelLoader, UNCOLORED_ATTRIBUTE } from "./types";
+
+// Bit 15 of a face's attribute word flags its color
+const COLOR_FLAG = 0x8000;
+
+interface FaceColors {
+  colors: Float32Array;
+  /** 1 for the vertices of faces that take the model's color */
+  uncolored?: Uint8Array;
+}
+
+/**
+ * Returns true when a buffer has the size of a binary STL file
+ */
+function isBinarySTL(bytes: Uint8Array): boolean {
+  if (bytes.length < 84) return false;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, 84);
+  return 84 + view.getUint32(80, true) * 50 === bytes.length;
+}
+
+/**
+ * Reads the per-face colors stored in the attribute word of a binary STL
+ *
+ * Two conventions exist. Materialise Magics writes "COLOR=r g b a" into the
+ * header as the default color and stores face colors as RGB with bit 15
+ * cleared. VisCAM and SolidView have no header marker and store BGR with
+ * bit 15 set, leaving the other faces in the model's color. Returns a color
+ * for every vertex, or undefined when the file has no colors.
+ */
+function readFaceColors(buffer: ArrayBuffer): FaceColors | undefined {
+  const view = new DataView(buffer);
+  const faces = view.getUint32(80, true);
+  const header = readHead(new Uint8Array(buffer, 0, 80), 80);
+
+  const marker = header.indexOf("COLOR=");
+  const materialise = marker >= 0 && marker <= 70;
+  const fallback = new Color(0xffffff);
+  if (materialise) {
+    fallback.setRGB(
+      view.getUint8(marker + 6) / 255,
+      view.getUint8(marker + 7) / 255,
+      view.getUint8(marker + 8) / 255,
+      "srgb",
+    );
+  }
+
+  const colors = new Float32Array(faces * 9);
+  const uncolored = materialise ? undefined : new Uint8Array(faces * 3);
+  const color = new Color();
+  let colored = false;
+
+  for (let face = 0; face < faces; face++) {
+    const packed = view.getUint16(84 + face * 50 + 48, true);
+    const hasColor = materialise
+      ? (packed & COLOR_FLAG) === 0
+      : (packed & COLOR_FLAG) !== 0;
+
+    if (hasColor) {
+      const low = (packed & 31) / 31;
+      const mid = ((packed >> 5) & 31) / 31;
+      const high = ((packed >> 10) & 31) / 31;
+      if (materialise) color.setRGB(low, mid, high, "srgb");
+      else color.setRGB(high, mid, low, "srgb");
+      colored = true;
+    } else {
+      color.copy(fallback);
+      uncolored?.fill(1, face * 3, face * 3 + 3);
+    }
+
+    for (let i = 0; i < 3; i++) color.toArray(colors, face * 9 + i * 3);
+  }
+
+  return materialise || colored ? { colors, uncolored } : undefined;
+}
+
+export const stlLoader: ModelLoader = {
+  name: "STL",
+  extensions: ["stl"],
+  mimeTypes: [
+    "model/stl",
+    "model/x.stl-binary",
+    "model/x.stl-ascii",
+    "application/sla",
+  ],
+  test(bytes) {
+    // Binary STL: 80 byte header, triangle count and 50 bytes per triangle
+    if (isBinarySTL(bytes)) return true;
+
+    return /^\s*solid[\s\S]*facet/.test(readHead(bytes, 1024));
+  },
+  parse(buffer) {
+    const geometry = new STLLoader().parse(buffer);
+
+    // STLLoader only understands Materialise colors and keeps them in sRGB
+    geometry.deleteAttribute("color");
+    const faceColors = isBinarySTL(new Uint8Array(buffer))
+      ? readFaceColors(buffer)
+      : undefined;
+    if (faceColors) {
+      geometry.setAttribute("color", new BufferAttribute(faceColors.colors, 3));
+    }
+    if (faceColors?.uncolored) {
+      geometry.setAttribute(
+        UNCOLORED_ATTRIBUTE,
+        new BufferAttribute(faceColors.uncolored, 1),
+      );
+    }
+
+    return [{ name: "Model", geometry }];
+  },
+};
@@ -0,0 +1,20 @@
+import { ThreeMFLoader } from "three-stdlib";
+import { isZip, readTail } from "./magic";
+import { partsFromObject } from "./parts";
+import type { ModelLoader } from "./types";
+
+export const threeMFLoader: ModelLoader = {
+  name: "3MF",
+  extensions: ["3mf"],
+  mimeTypes: [
+    "model/3mf",
+    "application/vnd.ms-package.3dmanufacturing-3dmodel+xml",
+  ],
+  test: (bytes) => isZip(bytes) && /3dmodel\.model/i.test(readTail(bytes)),
+  parse(buffer) {
+    const parts = partsFromObject(new ThreeMFLoader().parse(buffer), "Object");
+    if (parts.length === 0)
+      throw new Error("3MF file does not contain any objects");
+    return parts;
+  },
+};
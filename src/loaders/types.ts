@@ -0,0 +1,34 @@
+import type { BufferGeometry, Color } from "three";
+
+/**
+ * Optional vertex attribute set to 1 for vertices in the `color` attribute
+ * that have no color of their own and are filled with the part's color
+ */
+export const UNCOLORED_ATTRIBUTE = "uncolored";
+
+/**
+ * A single object of a loaded model
+ *
+ * Geometries are in the model's original coordinates. When the geometry has
+ * a `color` attribute it is rendered with vertex colors and `color` is ignored.
+ */
+export interface ModelPart {
+  name: string;
+  geometry: BufferGeometry;
+  color?: Color;
+}
+
+/**
+ * A parser for a model file format
+ */
+export interface ModelLoader {
+  /** Display name of the format */
+  name: string;
+  /** Lower case file extensions without the leading dot */
+  extensions: string[];
+  /** MIME types the format may be served with */
+  mimeTypes?: string[];
+  /** Returns true when the file contents look like this format */
+  test?: (bytes: Uint8Array) => boolean;
+  parse: (buffer: ArrayBuffer) => ModelPart[] | Promise<ModelPart[]>;
+}
@@ -0,0 +1,113 @@
+/**
+ * Parse Worker Client
+ *
+ * Runs the built-in loaders and ZIP extraction in a Web Worker so large
+ * models don't block the main thread. Each parse gets its own worker, which is terminated when the
+ * parse finishes or is cancelled.
+ */
+
+import type { ModelStats } from "../utils/mesh-stats";
+import type { ArchiveContents } from "./archive";
+import type { ParseRequest, ParseResponse } from "./parse.worker";
+import { deserializeParts } from "./serialize";
+import type { ModelPart } from "./types";
+
+function createAbortError(): DOMException {
+  return new DOMException("Loading was cancelled", "AbortError");
+}
+
+/**
+ * Runs a request in a new parse worker and resolves with its response
+ *
+ * The buffer is only handed to the worker once it has started, so when
+ * workers are unavailable (for example when the script is embedded
+ * cross-origin) this resolves to undefined and the buffer is left intact.
+ */
+function runInWorker(
+  request: ParseRequest,
+  signal?: AbortSignal,
+): Promise<ParseResponse | undefined> {
+  if (signal?.aborted) return Promise.reject(createAbortError());
+  if (typeof Worker === "undefined") return Promise.resolve(undefined);
+
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL("./parse.worker.ts", import.meta.url), {
+      type: "module",
+    });
+  } catch (error) {
+    console.warn("Unable to start parse worker, parsing on main thread", error);
+    return Promise.resolve(undefined);
+  }
+
+  return new Promise((resolve, reject) => {
+    let started = false;
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      reject(createAbortError());
+    };
+    signal?.addEventListener("abort", handleAbort);
+
+    worker.onerror = (event) => {
+      finish();
+      if (started) {
+        reject(new Error(event.message || "Parse worker failed"));
+      } else {
+        console.warn("Parse worker failed to start, parsing on main thread");
+        resolve(undefined);
+      }
+    };
+
+    worker.onmessage = (event: MessageEvent<ParseResponse | "ready">) => {
+      const data = event.data;
+
+      if (data === "ready") {
+        started = true;
+        worker.postMessage(request, [request.buffer]);
+        return;
+      }
+
+      finish();
+      if (data.type === "error") reject(new Error(data.message));
+      else resolve(data);
+    };
+  });
+}
+
+/**
+ * Parses a model file in a Web Worker, resolving to undefined when workers
+ * are unavailable
+ */
+export async function parseInWorker(
+  loader: string,
+  buffer: ArrayBuffer,
+  signal?: AbortSignal,
+): Promise<{ parts: ModelPart[]; stats: ModelStats } | undefined> {
+  const response = await runInWorker({ type: "parse", loader, buffer }, signal);
+  if (response?.type !== "result") return undefined;
+
+  return { parts: deserializeParts(response.parts), stats: response.stats };
+}
+
+/**
+ * Extracts the model files of a ZIP archive in a Web Worker, resolving to
+ * undefined when workers are unavailable
+ */
+export async function extractInWorker(
+  buffer: ArrayBuffer,
+  extensions: string[],
+  path?: string,
+  signal?: AbortSignal,
+): Promise<ArchiveContents | undefined> {
+  const response = await runInWorker(
+    { type: "extract", buffer, extensions, path },
+    signal,
+  );
+  return response?.type === "archive" ? response.contents : undefined;
+}
@@ -0,0 +1,64 @@
+/**
+ * Database Service
+ *
+ * Opens the IndexedDB database shared by the app's persistent stores and
+ * wraps IndexedDB requests in promises
+ */
+
+const DB_NAME = "stl-viewer";
+const DB_VERSION = 2;
+
+/** Recently opened models, keyed by id */
+export const HISTORY_STORE = "history";
+/** Downloaded model files, keyed by URL */
+export const MODEL_CACHE_STORE = "models";
+
+let database: Promise<IDBDatabase> | null = null;
+
+/**
+ * Resolves when an IndexedDB request succeeds
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves when a transaction has been committed
+ */
+export function promisifyTransaction(
+  transaction: IDBTransaction,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Opens the database, creating or upgrading its stores when needed
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (database) return database;
+
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+      db.createObjectStore(HISTORY_STORE, { keyPath: "id" });
+    }
+    if (!db.objectStoreNames.contains(MODEL_CACHE_STORE)) {
+      db.createObjectStore(MODEL_CACHE_STORE, { keyPath: "url" });
+    }
+  };
+
+  database = promisifyRequest(request).catch((error) => {
+    // Allow another attempt, e.g. after the user unblocks storage
+    database = null;
+    throw error;
+  });
+  return database;
+}
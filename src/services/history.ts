@@ -0,0 +1,163 @@
+/**
+ * History Service
+ *
+ * Keeps a list of recently opened models in IndexedDB, with a thumbnail so
+ * they can be recognised on the landing page. Uploaded files are stored
+ * along with the entry so they can be opened again, unless they are too
+ * large to keep.
+ */
+
+import {
+  HISTORY_STORE,
+  openDatabase,
+  promisifyRequest,
+  promisifyTransaction,
+} from "./database";
+
+export interface HistoryEntry {
+  /** Derived from the URLs or the files, so reopening a model updates its entry */
+  id: string;
+  name: string;
+  /** URLs of a model opened from the web */
+  urls?: string[];
+  /** Files of a model opened from disk, unless they were too large to keep */
+  files?: File[];
+  thumbnail?: Blob;
+  /** Total file size in bytes */
+  fileSize: number;
+  /** When the model was last opened, in milliseconds since the epoch */
+  openedAt: number;
+  /** Pinned entries are kept when the history is trimmed or cleared */
+  pinned: boolean;
+}
+
+/** Number of unpinned entries kept */
+const MAX_ENTRIES = 24;
+
+/** Largest total size of the files stored with an entry, in bytes */
+const MAX_FILES_SIZE = 20 * 1024 * 1024;
+
+/**
+ * Returns the history id for a model opened from URLs
+ */
+export function getUrlHistoryId(urls: string[]): string {
+  return `url:${urls.join(" ")}`;
+}
+
+/**
+ * Returns the history id for a model opened from files
+ */
+export function getFileHistoryId(files: File[]): string {
+  return `file:${files
+    .map((file) => `${file.name}:${file.size}:${file.lastModified}`)
+    .join("|")}`;
+}
+
+function notifyChange(): void {
+  window.dispatchEvent(new CustomEvent("history-changed"));
+}
+
+/**
+ * Returns the history, pinned entries first and then the most recent
+ */
+export async function getHistory(): Promise<HistoryEntry[]> {
+  const db = await openDatabase();
+  const store = db
+    .transaction(HISTORY_STORE, "readonly")
+    .objectStore(HISTORY_STORE);
+  const entries: HistoryEntry[] = await promisifyRequest(store.getAll());
+
+  return entries.sort(
+    (a, b) => Number(b.pinned) - Number(a.pinned) || b.openedAt - a.openedAt,
+  );
+}
+
+/**
+ * Adds a model to the history, or moves an existing entry to the top while
+ * keeping it pinned. The oldest unpinned entries are dropped.
+ *
+ * Files larger than MAX_FILES_SIZE together aren't stored, so the entry only
+ * shows the name and thumbnail of the model.
+ */
+export async function addToHistory(
+  entry: Omit<HistoryEntry, "openedAt" | "pinned">,
+): Promise<void> {
+  const entries = await getHistory();
+  const existing = entries.find((e) => e.id === entry.id);
+  const stale = entries
+    .filter((e) => !e.pinned && e.id !== entry.id)
+    .slice(existing?.pinned ? MAX_ENTRIES : MAX_ENTRIES - 1);
+
+  const db = await openDatabase();
+  const transaction = db.transaction(HISTORY_STORE, "readwrite");
+  const store = transaction.objectStore(HISTORY_STORE);
+  const filesSize = entry.files?.reduce((total, f) => total + f.size, 0) ?? 0;
+  store.put({
+    ...entry,
+    files: filesSize > MAX_FILES_SIZE ? undefined : entry.files,
+    openedAt: Date.now(),
+    pinned: existing?.pinned ?? false,
+  } satisfies HistoryEntry);
+  for (const e of stale) store.delete(e.id);
+
+  await promisifyTransaction(transaction);
+  notifyChange();
+}
+
+/**
+ * Pins or unpins an entry
+ */
+export async function setHistoryPinned(
+  id: string,
+  pinned: boolean,
+): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(HISTORY_STORE, "readwrite");
+  const store = transaction.objectStore(HISTORY_STORE);
+  const entry: HistoryEntry | undefined = await promisifyRequest(store.get(id));
+  if (entry) store.put({ ...entry, pinned });
+
+  await promisifyTransaction(transaction);
+  notifyChange();
+}
+
+/**
+ * Removes a single entry
+ */
+export async function removeFromHistory(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(HISTORY_STORE, "readwrite");
+  transaction.objectStore(HISTORY_STORE).delete(id);
+
+  await promisifyTransaction(transaction);
+  notifyChange();
+}
+
+/**
+ * Removes every entry that isn't pinned
+ */
+export async function clearHistory(): Promise<void> {
+  const entries = await getHistory();
+
+  const db = await openDatabase();
+  const transaction = db.transaction(HISTORY_STORE, "readwrite");
+  const store = transaction.objectStore(HISTORY_STORE);
+  for (const entry of entries) {
+    if (!entry.pinned) store.delete(entry.id);
+  }
+
+  await promisifyTransaction(transaction);
+  notifyChange();
+}
+
+/**
+ * Subscribes to history changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToHistory(callback: () => void): () => void {
+  window.addEventListener("history-changed", callback);
+
+  return () => {
+    window.removeEventListener("history-changed", callback);
+  };
+}
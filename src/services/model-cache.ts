@@ -0,0 +1,271 @@
+/**
+ * Model Cache Service
+ *
+ * Keeps downloaded model files in IndexedDB, keyed by URL, so models from
+ * slow hosts open quickly and work offline. Cached copies are revalidated
+ * with ETag and Last-Modified, and the least recently used models are
+ * evicted when the cache grows past its size limit.
+ *
+ * Conditional request headers aren't CORS-safelisted and would need a
+ * preflight, and ETag isn't exposed on cross-origin responses, so models
+ * from other origins are checked with a HEAD request and the Last-Modified
+ * and Content-Length headers instead.
+ */
+
+import {
+  MODEL_CACHE_STORE,
+  openDatabase,
+  promisifyRequest,
+  promisifyTransaction,
+} from "./database";
+import { getSettings } from "./settings";
+
+export interface CachedModel {
+  url: string;
+  data: Blob;
+  contentType?: string;
+  etag?: string;
+  lastModified?: string;
+  /** Size of the file in bytes */
+  size: number;
+  /** When the file was downloaded, in milliseconds since the epoch */
+  storedAt: number;
+  /** When the file was last opened, used to evict the oldest files first */
+  lastUsed: number;
+}
+
+export interface ModelCacheUsage {
+  /** Number of cached models */
+  count: number;
+  /** Total size in bytes */
+  size: number;
+}
+
+type Fetcher = (url: string, opts?: RequestInit) => Promise<Response>;
+
+const BYTES_PER_MB = 1024 * 1024;
+
+function isCacheable(url: string): boolean {
+  return /^https?:/i.test(url);
+}
+
+function isSameOrigin(url: string): boolean {
+  try {
+    return new URL(url, document.baseURI).origin === window.location.origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns true when a HEAD response shows the model is unchanged. Without
+ * Last-Modified there's no way to tell, so the model is downloaded again.
+ */
+function isUnchanged(model: CachedModel, response: Response): boolean {
+  const lastModified = response.headers.get("last-modified");
+  const length = response.headers.get("content-length");
+  return (
+    !!lastModified &&
+    lastModified === model.lastModified &&
+    (length === null || Number(length) === model.size)
+  );
+}
+
+function getSizeLimit(): number {
+  return Math.max(0, getSettings().modelCacheSize) * BYTES_PER_MB;
+}
+
+async function getAllModels(): Promise<CachedModel[]> {
+  const db = await openDatabase();
+  const store = db
+    .transaction(MODEL_CACHE_STORE, "readonly")
+    .objectStore(MODEL_CACHE_STORE);
+  return promisifyRequest(store.getAll());
+}
+
+async function getCachedModel(url: string): Promise<CachedModel | undefined> {
+  const db = await openDatabase();
+  const store = db
+    .transaction(MODEL_CACHE_STORE, "readonly")
+    .objectStore(MODEL_CACHE_STORE);
+  return promisifyRequest(store.get(url));
+}
+
+/**
+ * Deletes the least recently used models until `extra` more bytes fit in
+ * the size limit, then stores `model` if one is given
+ */
+async function evict(
+  limit: number,
+  extra = 0,
+  model?: CachedModel,
+): Promise<void> {
+  const models = await getAllModels();
+  const others = models
+    .filter((m) => m.url !== model?.url)
+    .sort((a, b) => a.lastUsed - b.lastUsed);
+  let total = others.reduce((sum, m) => sum + m.size, 0) + extra;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(MODEL_CACHE_STORE, "readwrite");
+  const store = transaction.objectStore(MODEL_CACHE_STORE);
+  for (const m of others) {
+    if (total <= limit) break;
+    store.delete(m.url);
+    total -= m.size;
+  }
+  if (model) store.put(model);
+
+  await promisifyTransaction(transaction);
+}
+
+/**
+ * Stores a model, evicting the least recently used models to make room
+ */
+export async function storeModel(
+  url: string,
+  data: Blob,
+  headers: Pick<CachedModel, "contentType" | "etag" | "lastModified"> = {},
+): Promise<void> {
+  const limit = getSizeLimit();
+  if (data.size > limit) return;
+
+  const now = Date.now();
+  await evict(limit, data.size, {
+    url,
+    data,
+    ...headers,
+    size: data.size,
+    storedAt: now,
+    lastUsed: now,
+  });
+}
+
+async function storeResponse(url: string, response: Response): Promise<void> {
+  await storeModel(url, await response.blob(), {
+    contentType: response.headers.get("content-type") ?? undefined,
+    etag: response.headers.get("etag") ?? undefined,
+    lastModified: response.headers.get("last-modified") ?? undefined,
+  });
+}
+
+function respondFromCache(model: CachedModel): Response {
+  // Mark the model as recently used, without holding up the load
+  openDatabase()
+    .then((db) => {
+      const transaction = db.transaction(MODEL_CACHE_STORE, "readwrite");
+      transaction
+        .objectStore(MODEL_CACHE_STORE)
+        .put({ ...model, lastUsed: Date.now() });
+      return promisifyTransaction(transaction);
+    })
+    .catch((error) => console.warn("Error updating model cache:", error));
+
+  const headers = new Headers({ "content-length": String(model.size) });
+  if (model.contentType) headers.set("content-type", model.contentType);
+  return new Response(model.data, { status: 200, headers });
+}
+
+/**
+ * Returns the cached copy of a model without checking the server, for files
+ * that never change like content addressed blobs
+ */
+export async function readCachedModel(
+  url: string,
+): Promise<Response | undefined> {
+  try {
+    const cached = await getCachedModel(url);
+    return cached && respondFromCache(cached);
+  } catch (error) {
+    console.warn("Error reading model cache:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Fetches a model through the cache
+ *
+ * A cached copy is revalidated and used when the server shows it hasn't
+ * changed, or when the request fails because the host or the network is
+ * down. Fresh downloads are stored in the background.
+ */
+export async function fetchCachedModel(
+  url: string,
+  opts: RequestInit | undefined,
+  fetcher: Fetcher,
+): Promise<Response> {
+  if (!isCacheable(url)) return fetcher(url, opts);
+
+  let cached: CachedModel | undefined;
+  try {
+    cached = await getCachedModel(url);
+  } catch (error) {
+    // IndexedDB can be unavailable, e.g. in private browsing
+    console.warn("Error reading model cache:", error);
+    return fetcher(url, opts);
+  }
+
+  const sameOrigin = isSameOrigin(url);
+  const headers = new Headers(opts?.headers);
+  if (sameOrigin && cached?.etag) headers.set("If-None-Match", cached.etag);
+  if (sameOrigin && cached?.lastModified) {
+    headers.set("If-Modified-Since", cached.lastModified);
+  }
+
+  let response: Response;
+  try {
+    if (cached && !sameOrigin) {
+      const head = await fetcher(url, { ...opts, method: "HEAD" });
+      if (isUnchanged(cached, head) || head.status >= 500) {
+        return respondFromCache(cached);
+      }
+    }
+    response = await fetcher(url, { ...opts, headers });
+  } catch (error) {
+    if (!cached || opts?.signal?.aborted) throw error;
+    console.warn(`Fetching ${url} failed, using the cached copy`, error);
+    return respondFromCache(cached);
+  }
+
+  if (cached && (response.status === 304 || response.status >= 500)) {
+    return respondFromCache(cached);
+  }
+
+  const cacheControl = response.headers.get("cache-control") ?? "";
+  if (response.ok && !cacheControl.includes("no-store")) {
+    storeResponse(url, response.clone()).catch((error) => {
+      if (!opts?.signal?.aborted) {
+        console.warn("Error writing model cache:", error);
+      }
+    });
+  }
+  return response;
+}
+
+/**
+ * Returns the number and total size of the cached models
+ */
+export async function getModelCacheUsage(): Promise<ModelCacheUsage> {
+  const models = await getAllModels();
+  return {
+    count: models.length,
+    size: models.reduce((sum, m) => sum + m.size, 0),
+  };
+}
+
+/**
+ * Evicts the least recently used models until the cache fits in its limit
+ */
+export async function trimModelCache(): Promise<void> {
+  await evict(getSizeLimit());
+}
+
+/**
+ * Removes every cached model
+ */
+export async function clearModelCache(): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(MODEL_CACHE_STORE, "readwrite");
+  transaction.objectStore(MODEL_CACHE_STORE).clear();
+  await promisifyTransaction(transaction);
+}
@@ -4,14 +4,50 @@
  * Manages application settings with localStorage persistence
  */
 
+import { DEFAULT_BLOSSOM_SERVERS } from "../utils/blossom";
+import type { PrinterSize } from "../utils/printers";
+
 export interface AppSettings {
   corsProxy: string;
+  /** Printer preset id, "custom" for customPrinter, or "" for none */
+  printer: string;
+  /** Build volume used when printer is "custom" */
+  customPrinter: PrinterSize;
+  /** Angle in degrees from vertical past which faces count as overhangs */
+  overhangAngle: number;
+  /** CSS color of models without their own color */
+  modelColor: string;
+  /** CSS color of the viewer background */
+  background: string;
+  showGrid: boolean;
+  showFloor: boolean;
+  fog: boolean;
+  /** Show the colors stored in model files, such as per-face STL colors */
+  fileColors: boolean;
+  /** Keep downloaded models in the browser to open them faster and offline */
+  modelCache: boolean;
+  /** Size limit of the model cache in megabytes */
+  modelCacheSize: number;
+  /** Servers to download "blossom:<sha256>" models from, tried in order */
+  blossomServers: string[];
 }
 
 const STORAGE_KEY = "stl-viewer-settings";
 
 const DEFAULT_SETTINGS: AppSettings = {
   corsProxy: "https://corsproxy.io/?url=<url>",
+  printer: "",
+  customPrinter: { x: 200, y: 200, z: 200 },
+  overhangAngle: 45,
+  modelColor: "#1a5fb4",
+  background: "#a0a0a0",
+  showGrid: true,
+  showFloor: true,
+  fog: true,
+  fileColors: true,
+  modelCache: true,
+  modelCacheSize: 500,
+  blossomServers: DEFAULT_BLOSSOM_SERVERS,
 };
 
 // In-memory cache of settings
@@ -1,172 +1,190 @@
-import { LitElement, css, html } from "lit";
+import { LitElement, css, html, type ComplexAttributeConverter } from "lit";
 import { customElement, property, state } from "lit/decorators.js";
 import { createRef, ref, type Ref } from "lit/directives/ref.js";
-import {
-  AmbientLight,
-  BufferGeometry,
-  Color,
-  DirectionalLight,
-  Fog,
-  GridHelper,
-  HemisphereLight,
-  Mesh,
-  MeshPhongMaterial,
-  type NormalBufferAttributes,
-  PerspectiveCamera,
-  PlaneGeometry,
-  Scene,
-  Vector3,
-  WebGLRenderer,
-} from "three";
-import { OrbitControls } from "three-stdlib";
-import { STLLoader } from "three-stdlib";
+import { Color, type Mesh, Quaternion, Vector3 } from "three";
 import { fetchWithProxy } from "./utils/cors-proxy";
-
-interface STLWorld {
-  renderer: WebGLRenderer;
-  scene: Scene;
-  camera: PerspectiveCamera;
-  object: Mesh;
-  grid: GridHelper;
-  floor: Mesh;
-  dirLight: DirectionalLight;
-  ambientLight: AmbientLight;
-  hemiLight: HemisphereLight;
-  controls: OrbitControls;
-  animate: () => void;
-  resize: () => void;
-  setSTLGeometry: (geometry: BufferGeometry<NormalBufferAttributes>) => void;
-}
-
-function createSTLWorld(canvas: HTMLCanvasElement): STLWorld {
-  const renderer = new WebGLRenderer({
-    canvas,
-    antialias: true,
-    preserveDrawingBuffer: true,
-    alpha: true,
-  });
-  renderer.shadowMap.enabled = true;
-
-  const scene = new Scene();
-  scene.background = new Color(0xa0a0a0);
-  scene.fog = new Fog(0xa0a0a0, 4, 20);
-
-  const camera = new PerspectiveCamera(
-    75,
-    canvas.width / canvas.height,
-    0.1,
-    1000,
-  );
-  camera.position.set(-2, 2, -2.5);
-  scene.add(camera);
-
-  const hemiLight = new HemisphereLight(0xffffff, 0x444444, 3);
-  hemiLight.position.set(0, 20, 0);
-  scene.add(hemiLight);
-
-  const ambientLight = new AmbientLight(0xffffff, 0.5);
-  scene.add(ambientLight);
-
-  const dirLight = new DirectionalLight(0xffffff);
-  dirLight.position.set(-5, 15, 10);
-  dirLight.castShadow = true;
-  scene.add(dirLight);
-
-  const floor = new Mesh(
-    new PlaneGeometry(40, 40),
-    new MeshPhongMaterial({ color: 0xbbbbbb, depthWrite: false }),
-  );
-  floor.rotation.set(-Math.PI / 2, 0, 0);
-  floor.receiveShadow = true;
-  scene.add(floor);
-
-  const grid = new GridHelper(40, 40, 0x000000, 0x000000);
-  grid.material.transparent = true;
-  grid.material.opacity = 0.2;
-  scene.add(grid);
-
-  const object = new Mesh(
-    new BufferGeometry(),
-    new MeshPhongMaterial({
-      color: 0x1a5fb4,
-      shininess: 60,
-      flatShading: true,
-    }),
-  );
-  object.castShadow = true;
-  object.receiveShadow = true;
-  scene.add(object);
-
-  const controls = new OrbitControls(camera, renderer.domElement);
-  controls.update();
-
-  controls.enableDamping = true;
-  controls.enablePan = true;
-  controls.enableRotate = true;
-  controls.enableZoom = true;
-
-  function setSTLGeometry(geometry: BufferGeometry<NormalBufferAttributes>) {
-    if (!geometry.boundingBox) geometry.computeBoundingBox();
-    if (!geometry.boundingSphere) geometry.computeBoundingSphere();
-
-    const objectScale = 2 / geometry.boundingSphere!.radius;
-    const bb = geometry.boundingBox!;
-    const center = bb.getCenter(new Vector3()).multiplyScalar(objectScale);
-
-    // update object
-    object.geometry = geometry;
-    object.scale.set(objectScale, objectScale, objectScale);
-    object.rotation.set(Math.PI * -0.5, 0, 0);
-    object.position.set(-center.x, -center.z, center.y);
-
-    // update floor
-    grid.position.set(0, ((bb.min.z - bb.max.z) / 2) * objectScale, 0);
-    floor.position.set(0, ((bb.min.z - bb.max.z) / 2) * objectScale, 0);
-
-    console.log("STL model loaded:", object);
-  }
-
-  function resize() {
-    camera.aspect = canvas.width / canvas.height;
-    camera.updateProjectionMatrix();
-  }
-
-  function animate() {
-    controls.update();
-    renderer.render(scene, camera);
-  }
-
-  return {
-    renderer,
-    scene,
-    camera,
-    object,
-    grid,
-    floor,
-    dirLight,
-    ambientLight,
-    hemiLight,
-    controls,
-    animate,
-    resize,
-    setSTLGeometry,
-  };
+import {
+  fetchCachedModel,
+  readCachedModel,
+  storeModel,
+} from "./services/model-cache";
+import {
+  extractModels,
+  isArchive,
+  type ModelLoader,
+  type ModelPart,
+  parseModel,
+  registerLoader,
+  splitArchiveUrl,
+  unregisterLoader,
+} from "./loaders";
+import {
+  type CameraState,
+  type CameraView,
+  createSTLWorld,
+  type PartInfo,
+  type STLWorld,
+} from "./world";
+import {
+  formatMeasurement,
+  getMeasurementAnchor,
+  MEASURE_POINT_COUNT,
+  type MeasureMode,
+  type Measurement,
+  measureAngle,
+  measureDistance,
+} from "./utils/measure";
+import {
+  combineModelStats,
+  formatBytes,
+  type ModelStats,
+} from "./utils/mesh-stats";
+import { parseSectionNormal } from "./utils/section";
+import { isRenderMode, type RenderMode } from "./utils/render-mode";
+import {
+  analyzeMeshHealth,
+  isHealthy,
+  type MeshHealth,
+  type MeshHealthReport,
+} from "./utils/mesh-health";
+import {
+  type DownloadProgress,
+  readResponseWithProgress,
+} from "./utils/download";
+import {
+  captureScreenshot,
+  recordTurntable,
+  type ScreenshotOptions,
+  type TurntableOptions,
+} from "./utils/capture";
+import { getBaseName } from "./utils/save-file";
+import {
+  exportAsciiSTL,
+  exportBinarySTL,
+  type STLExportOptions,
+} from "./utils/stl-export";
+import { parsePrinter, type PrinterFit } from "./utils/printers";
+import { DEFAULT_OVERHANG_ANGLE, type OverhangReport } from "./utils/overhang";
+import {
+  DEFAULT_MODEL_COLOR,
+  parseBackground,
+  parseColor,
+  parseFog,
+} from "./utils/appearance";
+import {
+  formatLength,
+  getScaleBarLength,
+  getUnitScale,
+  parseUnits,
+  scaleStats,
+} from "./utils/units";
+import {
+  type BlossomBlob,
+  canVerifySha256,
+  getBlossomUrls,
+  parseBlossomServers,
+  parseBlossomUri,
+  verifySha256,
+} from "./utils/blossom";
+import {
+  registerUrlResolver,
+  resolveModelUrl,
+  unregisterUrlResolver,
+  type UrlResolver,
+} from "./utils/url-resolvers";
+import { getSettings } from "./services/settings";
+
+// Boolean attributes that default to true, turned off with a value of "false"
+const defaultTrueConverter: ComplexAttributeConverter<boolean> = {
+  fromAttribute: (value) => value !== null && value !== "false",
+};
+
+/** A downloaded model file */
+interface ModelDownload {
+  buffer: ArrayBuffer;
+  /** MIME type reported by the server */
+  mimeType?: string;
 }
 
 /**
  * STL Viewer Component
  *
- * A web component for displaying 3D STL models using Three.js
+ * A web component for displaying 3D models (STL, 3MF, OBJ, PLY and AMF)
+ * using Three.js
  *
- * @property {string} src - URL of the STL file to load
+ * @property {string} src - URL of the model file to load, or several whitespace separated URLs to load onto one build plate
  * @property {number} width - Width of the viewer in pixels (default: 800, ignored when autoResize is true)
  * @property {number} height - Height of the viewer in pixels (default: 600, ignored when autoResize is true)
  * @property {string} corsProxy - Optional CORS proxy URL for loading models from restricted sources
+ * @property {boolean} cache - Keep downloaded models in the browser's IndexedDB storage, revalidated each time they are opened (default: false)
+ * @property {string} blossomServers - Whitespace separated Blossom servers to load "blossom:<sha256>" sources from (default: the servers in the settings)
  * @property {boolean} autoResize - Automatically adjust canvas size to match container dimensions (default: true)
+ * @property {string} measure - Measurement mode: "off", "distance" or "angle" (default: "off")
+ * @property {boolean} showStats - Show the model statistics panel (default: false)
+ * @property {boolean} showParts - Show the parts list and select parts by clicking them (default: false)
+ * @property {boolean} showHealth - Check the mesh for defects and highlight them (default: false)
+ * @property {string} section - Section view plane: "off", an axis ("x", "y", "z") or a normal like "1,1,0" (default: "off")
+ * @property {number} sectionPosition - Position of the section plane across the model, from 0 to 1 (default: 0.5)
+ * @property {boolean} sectionFlip - Keep the other side of the section plane (default: false)
+ * @property {string} units - Units the model file was exported in: "mm", "cm" or "inch" (default: "mm")
+ * @property {boolean} trueScale - Draw the model at real size on a 10 mm grid, with a scale bar (default: false)
+ * @property {string} printer - Printer to show the build volume of: a preset like "prusa-mk4" or a size in mm like "250x210x220" (default: none)
+ * @property {string} renderMode - How the model is drawn: "solid", "wireframe", "xray", "normals", "edges" or "overhang" (default: "solid")
+ * @property {string} color - CSS color of parts without their own color (default: "#1a5fb4")
+ * @property {boolean} uniformColor - Draw every part in the model color, ignoring per-face and per-object colors from the file (default: false)
+ * @property {string} background - CSS color of the background, or "transparent" (default: "#a0a0a0")
+ * @property {string} fog - "off", or the fog's start and end distance as multiples of the model's radius like "2,10" (default: "2,10")
+ * @property {boolean} showGrid - Show the floor grid, set to "false" to hide it (default: true)
+ * @property {boolean} showFloor - Show the floor, set to "false" to hide it (default: true)
+ * @property {number} overhangAngle - Angle in degrees from vertical past which faces count as overhangs in "overhang" mode (default: 45)
+ *
+ * @fires load-start - When a model starts loading, detail: { url }
+ * @fires load - When a model has loaded, detail: { url, stats }
+ * @fires load-progress - While the model is downloading, detail: { url, received, total, percent, rate }
+ * @fires load-error - When a model fails to load, detail: { error, url }
+ * @fires load-cancel - When loading is cancelled with cancelLoad(), detail: { url }
+ * @fires archive - When a ZIP archive is opened, detail: { url, models }
+ * @fires measure - When a measurement is completed, detail: { measurement }
+ * @fires part-select - When a part is selected or the selection is cleared, detail: { index, part }
+ * @fires camera-change - At most once per frame while the camera moves, detail: CameraState
  */
 @customElement("stl-viewer")
 export class STLViewer extends LitElement {
-  static shadowRootOptions = { ...LitElement.shadowRootOptions, mode: "closed" as const };
+  static shadowRootOptions = {
+    ...LitElement.shadowRootOptions,
+    mode: "closed" as const,
+  };
+
+  /**
+   * Registers a loader for an additional model format in all viewers.
+   * Registered loaders take precedence over the built-in ones.
+   */
+  static registerLoader(loader: ModelLoader): void {
+    registerLoader(loader);
+  }
+
+  /**
+   * Removes a previously registered loader by name
+   */
+  static unregisterLoader(name: string): void {
+    unregisterLoader(name);
+  }
+
+  /**
+   * Registers a resolver that rewrites the URLs of file pages to the raw
+   * files in all viewers. Registered resolvers are tried before the
+   * built-in ones.
+   */
+  static registerUrlResolver(resolver: UrlResolver): void {
+    registerUrlResolver(resolver);
+  }
+
+  /**
+   * Removes a previously registered URL resolver by name
+   */
+  static unregisterUrlResolver(name: string): void {
+    unregisterUrlResolver(name);
+  }
 
   @property({ type: String })
   src = "";
@@ -180,9 +198,71 @@ export class STLViewer extends LitElement {
   @property({ type: String, attribute: "cors-proxy" })
   corsProxy = "";
 
+  /** Keep downloaded models in IndexedDB to open them faster and offline */
+  @property({ type: Boolean })
+  cache = false;
+
+  /** Whitespace separated Blossom servers for "blossom:<sha256>" sources */
+  @property({ type: String, attribute: "blossom-servers" })
+  blossomServers = "";
+
   @property({ type: Boolean, attribute: "auto-resize" })
   autoResize = true;
 
+  @property({ type: String })
+  measure: MeasureMode = "off";
+
+  @property({ type: Boolean, attribute: "show-stats" })
+  showStats = false;
+
+  @property({ type: Boolean, attribute: "show-parts" })
+  showParts = false;
+
+  @property({ type: Boolean, attribute: "show-health" })
+  showHealth = false;
+
+  @property({ type: String })
+  section = "off";
+
+  @property({ type: Number, attribute: "section-position" })
+  sectionPosition = 0.5;
+
+  @property({ type: Boolean, attribute: "section-flip" })
+  sectionFlip = false;
+
+  @property({ type: String, attribute: "render-mode" })
+  renderMode: RenderMode = "solid";
+
+  @property({ type: String })
+  color = "";
+
+  @property({ type: Boolean, attribute: "uniform-color" })
+  uniformColor = false;
+
+  @property({ type: String })
+  background = "";
+
+  @property({ type: String })
+  fog = "";
+
+  @property({ attribute: "show-grid", converter: defaultTrueConverter })
+  showGrid = true;
+
+  @property({ attribute: "show-floor", converter: defaultTrueConverter })
+  showFloor = true;
+
+  @property({ type: Number, attribute: "overhang-angle" })
+  overhangAngle = DEFAULT_OVERHANG_ANGLE;
+
+  @property({ type: String })
+  printer = "";
+
+  @property({ type: String })
+  units = "mm";
+
+  @property({ type: Boolean, attribute: "true-scale" })
+  trueScale = false;
+
   @state()
   private loadingState: "idle" | "loading" | "loaded" | "error" = "idle";
 
@@ -192,11 +272,449 @@ export class STLViewer extends LitElement {
   @state()
   private errorMessage = "";
 
+  @state()
+  private measurements: Measurement[] = [];
+
+  @state()
+  private pendingPoints: Vector3[] = [];
+
+  @state()
+  private stats?: ModelStats;
+
+  /** Statistics of the model that stays shown while another one loads */
+  private shownStats?: ModelStats;
+
+  @state()
+  private progress?: DownloadProgress;
+
+  @state()
+  private health?: MeshHealth;
+
+  @state()
+  private overhangs?: OverhangReport;
+
+  @state()
+  private parts: PartInfo[] = [];
+
+  @state()
+  private printerFit?: PrinterFit;
+
+  @state()
+  private pickingFace = false;
+
   private canvasRef: Ref<HTMLCanvasElement> = createRef();
   private world?: STLWorld;
+  /** Millimetres per unit that the loaded geometry was scaled by */
+  private unitScale = 1;
+  private recordController?: AbortController;
   private animationFrameId?: number;
   private isAnimating = false;
   private resizeObserver?: ResizeObserver;
+  private loadController?: AbortController;
+  private nextMeasurementId = 1;
+  private cameraChanged = false;
+  /** Object URLs created by load() for Blobs, and the file names to detect their format */
+  private blobSources = new Map<string, string | undefined>();
+  /** Paths of the model files in the ZIP archives of the current model */
+  private archiveFiles: string[] = [];
+  private pointerDownPosition?: { x: number; y: number };
+  /** Resolves the promise returned by pickLayFlatFace() */
+  private resolveFacePick?: (picked: boolean) => void;
+
+  /**
+   * Loads a model from a URL, Blob or File, or several onto one build plate
+   *
+   * Resolves with the model statistics once the models have loaded and
+   * rejects if loading fails, is cancelled or is replaced by another load.
+   */
+  load(source: string | Blob | (string | Blob)[]): Promise<ModelStats> {
+    const url = (Array.isArray(source) ? source : [source])
+      .map((item) => {
+        if (typeof item === "string") return item;
+
+        const blobUrl = URL.createObjectURL(item);
+        this.blobSources.set(
+          blobUrl,
+          item instanceof File ? item.name : undefined,
+        );
+        return blobUrl;
+      })
+      .join(" ");
+
+    return new Promise((resolve, reject) => {
+      const cancelled = () =>
+        new DOMException("Loading was cancelled", "AbortError");
+
+      // The next load to start is either this one or one that replaced it
+      const handleStart = (e: Event) => {
+        this.removeEventListener("load-start", handleStart);
+        if ((e as CustomEvent).detail.url !== url || !this.loadController) {
+          cleanup();
+          reject(cancelled());
+          return;
+        }
+
+        // Reject when a newer load or src change replaces this one
+        this.loadController.signal.addEventListener("abort", () => {
+          cleanup();
+          reject(cancelled());
+        });
+      };
+      const handleLoad = (e: Event) => {
+        const { detail } = e as CustomEvent;
+        if (detail.url !== url) return;
+        cleanup();
+        resolve(detail.stats);
+      };
+      const handleError = (e: Event) => {
+        const { detail } = e as CustomEvent;
+        if (detail.url !== url) return;
+        cleanup();
+        reject(detail.error);
+      };
+      const handleCancel = (e: Event) => {
+        if ((e as CustomEvent).detail.url !== url) return;
+        cleanup();
+        reject(cancelled());
+      };
+      const cleanup = () => {
+        this.removeEventListener("load-start", handleStart);
+        this.removeEventListener("load", handleLoad);
+        this.removeEventListener("load-error", handleError);
+        this.removeEventListener("load-cancel", handleCancel);
+      };
+
+      this.addEventListener("load-start", handleStart);
+      this.addEventListener("load", handleLoad);
+      this.addEventListener("load-error", handleError);
+      this.addEventListener("load-cancel", handleCancel);
+
+      // Reload when the source hasn't changed, otherwise updated() starts the load
+      if (this.src === url && this.world) this.loadModels(url);
+      else this.src = url;
+    });
+  }
+
+  /**
+   * Moves the camera back to its initial position around the model
+   */
+  resetCamera(): void {
+    this.world?.resetCamera();
+  }
+
+  /**
+   * Looks at the model from the front, back, left, right, top, bottom or an
+   * isometric angle
+   */
+  setView(view: CameraView): void {
+    this.world?.setView(view);
+  }
+
+  /**
+   * Returns the camera position, orbit target and zoom
+   */
+  getCameraState(): CameraState | undefined {
+    return this.world?.getCameraState();
+  }
+
+  /**
+   * Restores a camera state returned by getCameraState()
+   */
+  setCameraState(state: CameraState): void {
+    this.world?.setCameraState(state);
+  }
+
+  /**
+   * Renders the current view to an image, optionally at a different
+   * resolution or with a transparent background
+   */
+  async screenshot(options: ScreenshotOptions = {}): Promise<Blob> {
+    if (!this.world) throw new Error("Viewer is not ready");
+
+    // Update the controls so the image matches the current state
+    this.world.controls.update();
+    return captureScreenshot(this.world, options);
+  }
+
+  /**
+   * Records one full turn of the camera around the model as a WebM video
+   */
+  async recordTurntable(options: TurntableOptions = {}): Promise<Blob> {
+    if (!this.world || this.loadingState !== "loaded") {
+      throw new Error("No model is loaded");
+    }
+
+    this.recordController?.abort();
+    const controller = new AbortController();
+    this.recordController = controller;
+
+    try {
+      return await recordTurntable(this.world, options, controller.signal);
+    } finally {
+      if (this.recordController === controller) {
+        this.recordController = undefined;
+      }
+    }
+  }
+
+  /**
+   * Stops a turntable recording without producing a video
+   */
+  cancelRecording(): void {
+    this.recordController?.abort();
+    this.recordController = undefined;
+  }
+
+  /**
+   * Cancels the model that is currently being fetched or parsed
+   */
+  cancelLoad(): void {
+    if (!this.loadController) return;
+
+    this.loadController.abort();
+    this.loadController = undefined;
+    this.loadingMessage = "";
+    this.progress = undefined;
+
+    // Go back to the model that is still shown, if there is one
+    if (this.shownStats && this.world?.getParts().length) {
+      this.stats = this.shownStats;
+      this.shownStats = undefined;
+      this.loadingState = "loaded";
+      this.applyUnits();
+    } else {
+      this.loadingState = "idle";
+    }
+
+    this.dispatchEvent(
+      new CustomEvent("load-cancel", {
+        detail: { url: this.src },
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  /**
+   * Returns the statistics of the loaded model
+   */
+  getStats(): ModelStats | undefined {
+    return this.stats;
+  }
+
+  /**
+   * Returns the paths of the model files in the loaded ZIP archives,
+   * including those that weren't opened
+   */
+  getArchiveModels(): string[] {
+    return [...this.archiveFiles];
+  }
+
+  /**
+   * Returns the name, visibility, color and selection state of each part
+   */
+  getParts(): PartInfo[] {
+    return this.world?.getParts() ?? [];
+  }
+
+  /**
+   * Shows or hides a part
+   */
+  setPartVisible(index: number, visible: boolean): void {
+    this.world?.setPartVisible(index, visible);
+    this.parts = this.getParts();
+  }
+
+  /**
+   * Sets the color of a part as a CSS color, or restores its own color
+   */
+  setPartColor(index: number, color?: string): void {
+    this.world?.setPartColor(index, color ? new Color(color) : undefined);
+    this.parts = this.getParts();
+  }
+
+  /**
+   * Selects a part by index, or clears the selection
+   */
+  selectPart(index?: number): void {
+    if (!this.world) return;
+
+    this.world.setSelectedPart(index);
+    this.parts = this.getParts();
+    const selected = this.parts.findIndex((part) => part.selected);
+
+    this.dispatchEvent(
+      new CustomEvent("part-select", {
+        detail: {
+          index: selected >= 0 ? selected : undefined,
+          part: this.parts[selected],
+        },
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  /**
+   * Lays the parts out side by side on the floor. Measurements are cleared
+   * because the parts move.
+   */
+  arrange(): void {
+    if (!this.world || this.loadingState !== "loaded") return;
+
+    this.world.arrange();
+    this.handlePartsTransformed();
+  }
+
+  /**
+   * Rotates the model around one of its axes (Z points up)
+   */
+  rotate(axis: "x" | "y" | "z", degrees = 90): void {
+    if (!this.world || this.loadingState !== "loaded") return;
+
+    const direction = new Vector3(
+      axis === "x" ? 1 : 0,
+      axis === "y" ? 1 : 0,
+      axis === "z" ? 1 : 0,
+    );
+    this.world.rotateParts(
+      new Quaternion().setFromAxisAngle(direction, (degrees * Math.PI) / 180),
+    );
+    this.handlePartsTransformed();
+  }
+
+  /**
+   * Rotates the model so the face with the given normal rests on the floor
+   */
+  layFlat(normal: Vector3): void {
+    if (!this.world || this.loadingState !== "loaded") return;
+
+    this.world.layFlat(normal);
+    this.handlePartsTransformed();
+  }
+
+  /**
+   * Waits for the user to click a face of the model and lays the model flat
+   * on it. Resolves with false if the click missed the model or the pick
+   * was replaced by another.
+   */
+  pickLayFlatFace(): Promise<boolean> {
+    this.resolveFacePick?.(false);
+    this.pickingFace = true;
+
+    return new Promise((resolve) => {
+      this.resolveFacePick = (picked) => {
+        this.resolveFacePick = undefined;
+        this.pickingFace = false;
+        resolve(picked);
+      };
+    });
+  }
+
+  /**
+   * Undoes every rotation since the model was loaded
+   */
+  resetOrientation(): void {
+    if (!this.world || this.loadingState !== "loaded") return;
+
+    this.world.resetOrientation();
+    this.handlePartsTransformed();
+  }
+
+  /**
+   * Exports the visible parts to a binary or ASCII STL
+   *
+   * By default the parts are written as shown, in millimetres, including
+   * rotations and the layout. With applyTransforms set to false they are
+   * written exactly as they were loaded.
+   */
+  exportSTL(options: STLExportOptions = {}): Blob {
+    const world = this.world;
+    if (!world || this.loadingState !== "loaded") {
+      throw new Error("No model is loaded");
+    }
+
+    const { format = "binary", applyTransforms = true, name } = options;
+    const geometries = world.parts
+      .map((mesh, i) => {
+        if (!mesh.visible) return undefined;
+        if (applyTransforms) return mesh.geometry;
+
+        return mesh.geometry
+          .clone()
+          .applyMatrix4(world.getPartTransform(i).invert());
+      })
+      .filter((geometry) => geometry !== undefined);
+
+    const data =
+      format === "ascii"
+        ? exportAsciiSTL(geometries, name)
+        : exportBinarySTL(geometries);
+    if (!applyTransforms) geometries.forEach((geometry) => geometry.dispose());
+
+    return new Blob([data], { type: "model/stl" });
+  }
+
+  /**
+   * Returns whether the model fits the build volume of the printer, or
+   * undefined when no printer is set
+   */
+  checkFit(): PrinterFit | undefined {
+    return this.world?.getPrinterFit();
+  }
+
+  /**
+   * Checks the loaded model for open boundaries, non-manifold edges,
+   * degenerate triangles and flipped normals. The result is cached until a
+   * new model is loaded.
+   */
+  checkMesh(): MeshHealthReport | undefined {
+    if (!this.world || this.loadingState !== "loaded") return undefined;
+
+    if (!this.health) {
+      this.health = analyzeMeshHealth(
+        this.world.parts.map((mesh) => mesh.geometry),
+      );
+    }
+    return this.health.report;
+  }
+
+  /**
+   * Counts the faces past the overhang angle that would need support when
+   * printed, ignoring faces on the build plate. The result is cached until
+   * the model or the angle changes.
+   */
+  checkOverhangs(): OverhangReport | undefined {
+    if (!this.world || this.loadingState !== "loaded") return undefined;
+
+    if (!this.overhangs) this.overhangs = this.world.getOverhangs();
+    return this.overhangs;
+  }
+
+  /**
+   * Returns the completed measurements
+   */
+  getMeasurements(): Measurement[] {
+    return this.measurements.map((m) => ({
+      ...m,
+      points: m.points.map((p) => p.clone()),
+    }));
+  }
+
+  /**
+   * Removes a single measurement by id
+   */
+  removeMeasurement(id: number): void {
+    this.measurements = this.measurements.filter((m) => m.id !== id);
+  }
+
+  /**
+   * Removes all measurements and any partially picked points
+   */
+  clearMeasurements(): void {
+    this.measurements = [];
+    this.pendingPoints = [];
+  }
 
   render() {
     return html`
@@ -205,12 +723,240 @@ export class STLViewer extends LitElement {
           ${ref(this.canvasRef)}
           width=${this.width}
           height=${this.height}
+          class=${this.measure !== "off" || this.pickingFace ? "measuring" : ""}
+          @pointerdown=${this.handlePointerDown}
+          @pointerup=${this.handlePointerUp}
         ></canvas>
+        ${this.renderMeasurements()}
+        <div class="bottom-panels">
+          ${this.renderPrinterWarning()}
+          ${this.trueScale && this.loadingState === "loaded"
+            ? html`<div class="scale-bar">
+                <span class="scale-bar-label"></span>
+                <div class="scale-bar-line"></div>
+              </div>`
+            : null}
+        </div>
+        <div class="side-panels">
+          ${this.renderParts()} ${this.renderHealth()} ${this.renderOverhangs()}
+          ${this.renderStats()}
+        </div>
         ${this.renderOverlay()}
       </div>
     `;
   }
 
+  private renderPrinterWarning() {
+    const printer = parsePrinter(this.printer);
+    if (!printer || !this.printerFit || this.printerFit.fits) return null;
+
+    return html`
+      <div class="printer-warning" role="alert">
+        ⚠ The model doesn't fit the ${printer.name} (${printer.x} ×
+        ${printer.y} × ${printer.z}
+        mm)${this.printerFit.fitsRotated
+          ? html`<br />It fits when turned 90° on the bed`
+          : null}
+      </div>
+    `;
+  }
+
+  private renderParts() {
+    if (!this.showParts || this.parts.length === 0) return null;
+
+    return html`
+      <div class="parts-panel">
+        <div class="parts-header">
+          <span>Parts</span>
+          <button
+            @click=${this.arrange}
+            title="Lay the parts out side by side on the floor"
+          >
+            Arrange
+          </button>
+        </div>
+        <ul class="parts-list">
+          ${this.parts.map(
+            (part, i) => html`
+              <li class=${part.selected ? "selected" : ""}>
+                <input
+                  type="checkbox"
+                  .checked=${part.visible}
+                  @change=${(e: Event) =>
+                    this.setPartVisible(
+                      i,
+                      (e.target as HTMLInputElement).checked,
+                    )}
+                  title="Show part"
+                />
+                <input
+                  type="color"
+                  .value=${part.color ?? "#ffffff"}
+                  @input=${(e: Event) =>
+                    this.setPartColor(i, (e.target as HTMLInputElement).value)}
+                  title="Part color"
+                />
+                <button
+                  class="part-name"
+                  @click=${() => this.selectPart(part.selected ? undefined : i)}
+                  title=${part.name}
+                >
+                  ${part.name}
+                </button>
+              </li>
+            `,
+          )}
+        </ul>
+      </div>
+    `;
+  }
+
+  private renderHealth() {
+    if (!this.showHealth || !this.health) return null;
+
+    const report = this.health.report;
+    const rows: [string, number, string][] = [
+      ["Open edges", report.boundaryEdges, "boundary"],
+      ["Holes", report.holes, "boundary"],
+      ["Non-manifold edges", report.nonManifoldEdges, "non-manifold"],
+      ["Inconsistent winding", report.inconsistentEdges, "winding"],
+      ["Flipped normals", report.flippedNormals, "flipped"],
+      ["Degenerate triangles", report.degenerateTriangles, "degenerate"],
+    ];
+
+    return html`
+      <div class="health-panel">
+        <div class="health-status ${isHealthy(report) ? "ok" : "bad"}">
+          ${isHealthy(report)
+            ? "✓ Watertight, no defects found"
+            : report.watertight
+              ? "⚠ Watertight, with defects"
+              : "⚠ Not watertight"}
+        </div>
+        ${report.inverted
+          ? html`<div class="health-note">
+              All normals point inwards, the model is inside out
+            </div>`
+          : null}
+        <dl>
+          ${rows.map(
+            ([label, count, type]) => html`
+              <dt><span class="swatch ${type}"></span>${label}</dt>
+              <dd>${count.toLocaleString()}</dd>
+            `,
+          )}
+        </dl>
+      </div>
+    `;
+  }
+
+  private renderOverhangs() {
+    if (this.renderMode !== "overhang" || !this.overhangs) return null;
+
+    const { angle, faces, area, totalArea } = this.overhangs;
+    const percent = totalArea > 0 ? (area / totalArea) * 100 : 0;
+
+    return html`
+      <div class="overhang-panel">
+        <div class="overhang-status ${faces === 0 ? "ok" : "bad"}">
+          ${faces === 0
+            ? `✓ No overhangs past ${angle}°`
+            : `⚠ Overhangs past ${angle}° need support`}
+        </div>
+        <div class="overhang-legend">
+          <span>0°</span>
+          <div
+            class="overhang-gradient"
+            style="--threshold: ${(angle / 90) * 100}%"
+          ></div>
+          <span>90°</span>
+        </div>
+        <dl>
+          <dt>Faces</dt>
+          <dd>${faces.toLocaleString()}</dd>
+          <dt>Area</dt>
+          <dd>${(area / 100).toFixed(2)} cm²</dd>
+          <dt>Share of surface</dt>
+          <dd>${percent.toFixed(1)}%</dd>
+        </dl>
+      </div>
+    `;
+  }
+
+  private renderStats() {
+    if (!this.showStats || !this.stats) return null;
+
+    const { size, triangles, vertices, volume, surfaceArea, fileSize } =
+      this.stats;
+
+    return html`
+      <dl class="stats-panel">
+        <dt>Size</dt>
+        <dd>
+          ${size.x.toFixed(2)} × ${size.y.toFixed(2)} × ${size.z.toFixed(2)} mm
+        </dd>
+        <dt>Triangles</dt>
+        <dd>${triangles.toLocaleString()}</dd>
+        <dt>Vertices</dt>
+        <dd>${vertices.toLocaleString()}</dd>
+        <dt>Volume</dt>
+        <dd>${(volume / 1000).toFixed(2)} cm³</dd>
+        <dt>Surface area</dt>
+        <dd>${(surfaceArea / 100).toFixed(2)} cm²</dd>
+        <dt>File size</dt>
+        <dd>${formatBytes(fileSize)}</dd>
+      </dl>
+    `;
+  }
+
+  private renderMeasurements() {
+    if (this.measurements.length === 0 && this.measure === "off") return null;
+
+    const required =
+      this.measure === "off" ? 0 : MEASURE_POINT_COUNT[this.measure];
+
+    return html`
+      ${this.measurements.map(
+        (m) =>
+          html`<div class="measure-label" data-id=${m.id}>
+            ${formatMeasurement(m, parseUnits(this.units))}
+          </div>`,
+      )}
+      <div class="measure-panel">
+        <div class="measure-header">
+          <span>Measurements</span>
+          ${this.measurements.length > 0 || this.pendingPoints.length > 0
+            ? html`<button @click=${this.clearMeasurements}>Clear</button>`
+            : null}
+        </div>
+        ${this.measure !== "off"
+          ? html`<div class="measure-hint">
+              Click ${required - this.pendingPoints.length} more
+              point${required - this.pendingPoints.length === 1 ? "" : "s"} on
+              the model to measure
+              ${this.measure === "angle" ? "an angle" : "a distance"}
+            </div>`
+          : null}
+        <ol class="measure-list">
+          ${this.measurements.map(
+            (m) => html`
+              <li>
+                <span>${m.type === "distance" ? "Distance" : "Angle"}</span>
+                <strong>${formatMeasurement(m, parseUnits(this.units))}</strong>
+                <button
+                  @click=${() => this.removeMeasurement(m.id)}
+                  title="Remove measurement"
+                >
+                  ×
+                </button>
+              </li>
+            `,
+          )}
+        </ol>
+      </div>
+    `;
+  }
+
   private renderOverlay() {
     if (this.loadingState === "idle" || this.loadingState === "loaded") {
       return null;
@@ -222,13 +968,17 @@ export class STLViewer extends LitElement {
           ${this.loadingState === "loading"
             ? html`
                 <div class="spinner"></div>
-                <div class="loading-title">Loading STL Model</div>
+                <div class="loading-title">Loading Model</div>
                 <div class="loading-url">${this.src}</div>
                 ${this.loadingMessage
                   ? html`<div class="loading-message">
                       ${this.loadingMessage}
                     </div>`
                   : null}
+                ${this.renderProgress()}
+                <button class="cancel-button" @click=${this.cancelLoad}>
+                  Cancel
+                </button>
               `
             : html`
                 <div class="error-icon">⚠️</div>
@@ -241,14 +991,44 @@ export class STLViewer extends LitElement {
     `;
   }
 
+  private renderProgress() {
+    if (!this.progress) return null;
+
+    const { received, total, percent, rate } = this.progress;
+
+    return html`
+      <div class="progress">
+        <div
+          class="progress-bar ${percent === undefined ? "indeterminate" : ""}"
+        >
+          <div
+            class="progress-fill"
+            style="width: ${percent === undefined ? 100 : percent}%"
+          ></div>
+        </div>
+        <div class="progress-text">
+          ${formatBytes(received)}${total ? ` / ${formatBytes(total)}` : ""}
+          ${percent !== undefined ? ` (${Math.floor(percent)}%)` : ""}
+          ${rate > 0 ? html` · ${formatBytes(rate)}/s` : null}
+        </div>
+      </div>
+    `;
+  }
+
   protected firstUpdated(): void {
     this.initializeWorld();
     this.setupResizeObserver();
   }
 
+  protected willUpdate(changedProperties: Map<string, unknown>): void {
+    if (changedProperties.has("measure")) {
+      this.pendingPoints = [];
+    }
+  }
+
   protected updated(changedProperties: Map<string, unknown>): void {
     if (changedProperties.has("src") && this.src) {
-      this.loadSTL(this.src);
+      this.loadModels(this.src);
     }
 
     if (changedProperties.has("width") || changedProperties.has("height")) {
@@ -258,6 +1038,89 @@ export class STLViewer extends LitElement {
     if (changedProperties.has("autoResize")) {
       this.setupResizeObserver();
     }
+
+    if (
+      changedProperties.has("measurements") ||
+      changedProperties.has("pendingPoints")
+    ) {
+      this.updateMeasurementLayer();
+    }
+
+    if (changedProperties.has("renderMode")) {
+      this.world?.setRenderMode(
+        isRenderMode(this.renderMode) ? this.renderMode : "solid",
+      );
+    }
+
+    if (
+      changedProperties.has("color") ||
+      changedProperties.has("background") ||
+      changedProperties.has("fog") ||
+      changedProperties.has("showGrid") ||
+      changedProperties.has("showFloor")
+    ) {
+      this.world?.setAppearance({
+        color: parseColor(this.color) ?? new Color(DEFAULT_MODEL_COLOR),
+        background: parseBackground(this.background),
+        fog: parseFog(this.fog),
+        showGrid: this.showGrid,
+        showFloor: this.showFloor,
+      });
+      // Part colors in the parts list may have changed
+      if (this.loadingState === "loaded") this.parts = this.getParts();
+    }
+
+    if (changedProperties.has("uniformColor")) {
+      this.world?.setUniformColor(this.uniformColor);
+      if (this.loadingState === "loaded") this.parts = this.getParts();
+    }
+
+    if (changedProperties.has("overhangAngle")) {
+      this.world?.setOverhangAngle(this.overhangAngle);
+      this.overhangs = undefined;
+    }
+
+    if (
+      changedProperties.has("renderMode") ||
+      changedProperties.has("loadingState") ||
+      changedProperties.has("overhangs")
+    ) {
+      // Analysis is deferred until the overhang view is turned on
+      if (this.renderMode === "overhang") this.checkOverhangs();
+    }
+
+    if (changedProperties.has("units") && this.loadingState === "loaded") {
+      this.applyUnits();
+    }
+
+    if (changedProperties.has("trueScale")) {
+      this.world?.setTrueScale(this.trueScale);
+    }
+
+    if (changedProperties.has("printer")) {
+      this.world?.setPrinter(parsePrinter(this.printer));
+      this.printerFit = this.checkFit();
+    }
+
+    if (
+      changedProperties.has("section") ||
+      changedProperties.has("sectionPosition") ||
+      changedProperties.has("sectionFlip")
+    ) {
+      this.updateSection();
+    }
+
+    if (
+      changedProperties.has("showHealth") ||
+      changedProperties.has("loadingState") ||
+      changedProperties.has("health")
+    ) {
+      // Analysis is deferred until the check is turned on
+      if (this.showHealth) this.checkMesh();
+      this.world?.healthLayer.update(
+        this.showHealth ? this.health?.defects : undefined,
+      );
+    }
   }
 
   disconnectedCallback(): void {
@@ -273,42 +1136,157 @@ export class STLViewer extends LitElement {
     canvas.height = this.height;
 
     this.world = createSTLWorld(canvas);
+    this.world.controls.addEventListener("change", () => {
+      this.cameraChanged = true;
+    });
     this.startAnimation();
 
-    // Note: loadSTL will be called by updated() lifecycle method
+    // Note: loadModels will be called by updated() lifecycle method
     // when src property is set, so we don't need to call it here
   }
 
-  private async loadSTL(url: string): Promise<void> {
+  private async loadModels(src: string): Promise<void> {
     if (!this.world) return;
 
+    // Cancel any load or recording that is still in progress
+    this.loadController?.abort();
+    this.cancelRecording();
+    this.resolveFacePick?.(false);
+    const controller = new AbortController();
+    this.loadController = controller;
+    const { signal } = controller;
+
+    const urls = src.split(/\s+/).filter(Boolean);
+
     this.loadingState = "loading";
     this.loadingMessage = "Fetching model...";
     this.errorMessage = "";
+    this.shownStats = this.stats ?? this.shownStats;
+    this.stats = undefined;
+    this.progress = undefined;
+
+    // Drop the object URLs of previous load(blob) calls once they are replaced
+    this.revokeBlobSources(urls.map((url) => splitArchiveUrl(url)[0]));
+
+    this.dispatchEvent(
+      new CustomEvent("load-start", {
+        detail: { url: src },
+        bubbles: true,
+        composed: true,
+      }),
+    );
 
     try {
-      const loader = new STLLoader();
-
-      // Use custom fetch with CORS proxy support
-      // Pass the component's corsProxy property if provided
-      const response = await fetchWithProxy(url, undefined, this.corsProxy);
-      if (!response.ok) {
-        throw new Error(
-          `Failed to load STL: ${response.status} ${response.statusText}`,
-        );
+      const parts: ModelPart[] = [];
+      const fileStats: ModelStats[] = [];
+      this.archiveFiles = [];
+
+      for (const [index, src] of urls.entries()) {
+        const count = urls.length > 1 ? ` ${index + 1} of ${urls.length}` : "";
+        // A path after "#" picks a single file out of a ZIP archive
+        const [url, archivePath] = splitArchiveUrl(src);
+
+        const blob = parseBlossomUri(url);
+        let download: ModelDownload;
+        let name: string | undefined;
+        if (blob) {
+          download = await this.downloadBlossomBlob(blob, src, count, signal);
+          name = blob.extension && `${blob.sha256}.${blob.extension}`;
+        } else {
+          this.loadingMessage = `Fetching model${count}...`;
+          const fileUrl = await resolveModelUrl(url);
+          signal.throwIfAborted();
+          download = await this.downloadModel(fileUrl, src, count, signal);
+          name = this.blobSources.has(url)
+            ? this.blobSources.get(url)
+            : fileUrl;
+        }
+
+        this.progress = undefined;
+        const arrayBuffer = download.buffer;
+        const source = { name, mimeType: download.mimeType };
+
+        let files: { buffer: ArrayBuffer; name?: string; mimeType?: string }[];
+        if (isArchive(arrayBuffer, source)) {
+          this.loadingMessage = `Extracting archive${count}...`;
+          const archive = await extractModels(arrayBuffer, archivePath, signal);
+          this.archiveFiles.push(...archive.models);
+          this.dispatchEvent(
+            new CustomEvent("archive", {
+              detail: { url, models: archive.models },
+              bubbles: true,
+              composed: true,
+            }),
+          );
+          files = archive.files.map((file) => ({
+            buffer: file.buffer,
+            name: file.path,
+          }));
+        } else {
+          files = [{ buffer: arrayBuffer, ...source }];
+        }
+
+        this.loadingMessage = `Parsing geometry${count}...`;
+        for (const file of files) {
+          const result = await parseModel(
+            file.buffer,
+            { name: file.name, mimeType: file.mimeType },
+            signal,
+          );
+
+          // Name single part models after their file in the parts list
+          if (result.parts.length === 1 && file.name) {
+            result.parts[0].name = getBaseName(file.name);
+          }
+
+          parts.push(...result.parts);
+          fileStats.push(result.stats);
+        }
       }
 
-      this.loadingMessage = "Parsing geometry...";
-      const arrayBuffer = await response.arrayBuffer();
-      const geometry = loader.parse(arrayBuffer);
+      // A newer load may have replaced this one while the last file parsed
+      signal.throwIfAborted();
+
+      const stats =
+        fileStats.length === 1
+          ? fileStats[0]
+          : combineModelStats(
+              fileStats,
+              parts.map((part) => part.geometry),
+            );
 
       this.loadingMessage = "Rendering model...";
-      this.world.setSTLGeometry(geometry);
+      this.clearMeasurements();
+      this.health = undefined;
+      this.overhangs = undefined;
+      this.world.setModel(parts);
+
+      // Geometry is kept in millimetres
+      this.unitScale = getUnitScale(this.units);
+      this.world.scaleParts(this.unitScale);
+      this.stats = scaleStats(stats, this.unitScale);
+      this.shownStats = undefined;
+      this.parts = this.world.getParts();
+      this.printerFit = this.checkFit();
+      if (this.loadController === controller) this.loadController = undefined;
 
       this.loadingState = "loaded";
       this.loadingMessage = "";
+
+      this.dispatchEvent(
+        new CustomEvent("load", {
+          detail: { url: src, stats: this.stats },
+          bubbles: true,
+          composed: true,
+        }),
+      );
     } catch (error) {
-      console.error("Error loading STL file:", error);
+      // Cancelled loads are replaced by a new load or by cancelLoad()
+      if (signal.aborted) return;
+      if (this.loadController === controller) this.loadController = undefined;
+      this.progress = undefined;
+
+      console.error("Error loading model file:", error);
 
       this.loadingState = "error";
       this.errorMessage =
@@ -319,7 +1297,7 @@ export class STLViewer extends LitElement {
       // Dispatch error event so parent components can handle it
       this.dispatchEvent(
         new CustomEvent("load-error", {
-          detail: { error, url },
+          detail: { error, url: src },
           bubbles: true,
           composed: true,
         }),
@@ -327,6 +1305,176 @@ export class STLViewer extends LitElement {
     }
   }
 
+  private handlePointerDown(e: PointerEvent): void {
+    this.pointerDownPosition = { x: e.clientX, y: e.clientY };
+  }
+
+  private handlePointerUp(e: PointerEvent): void {
+    const start = this.pointerDownPosition;
+    this.pointerDownPosition = undefined;
+    if (!start || !this.world) return;
+    if (this.measure === "off" && !this.showParts && !this.pickingFace) return;
+
+    // Ignore drags so orbiting the camera doesn't place points
+    if (Math.hypot(e.clientX - start.x, e.clientY - start.y) > 5) return;
+
+    const canvas = e.currentTarget as HTMLCanvasElement;
+    const rect = canvas.getBoundingClientRect();
+    const hit = this.world.pick(
+      ((e.clientX - rect.left) / rect.width) * 2 - 1,
+      -((e.clientY - rect.top) / rect.height) * 2 + 1,
+    );
+
+    if (this.resolveFacePick) {
+      if (hit?.face) this.layFlat(hit.face.normal);
+      this.resolveFacePick(!!hit?.face);
+      return;
+    }
+
+    // Clicking a part selects it while the parts list is shown
+    if (this.measure === "off") {
+      const index = hit ? this.world.parts.indexOf(hit.object as Mesh) : -1;
+      const selected = this.parts.findIndex((part) => part.selected);
+      if (index !== selected) this.selectPart(index >= 0 ? index : undefined);
+      return;
+    }
+    if (!hit) return;
+
+    this.addMeasurementPoint(this.world.model.worldToLocal(hit.point.clone()));
+  }
+
+  private addMeasurementPoint(point: Vector3): void {
+    if (this.measure === "off") return;
+
+    const points = [...this.pendingPoints, point];
+    if (points.length < MEASURE_POINT_COUNT[this.measure]) {
+      this.pendingPoints = points;
+      return;
+    }
+
+    const measurement: Measurement = {
+      id: this.nextMeasurementId++,
+      type: this.measure,
+      points,
+      value:
+        this.measure === "distance"
+          ? measureDistance(points[0], points[1])
+          : measureAngle(points[0], points[1], points[2]),
+    };
+
+    this.pendingPoints = [];
+    this.measurements = [...this.measurements, measurement];
+
+    this.dispatchEvent(
+      new CustomEvent("measure", {
+        detail: { measurement },
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  // Measurements and the mesh check no longer match parts that moved
+  private handlePartsTransformed(): void {
+    if (!this.world) return;
+
+    this.clearMeasurements();
+    this.health = undefined;
+    this.overhangs = undefined;
+    this.printerFit = this.checkFit();
+    if (this.stats) {
+      const size = this.world.getBoundingBox().getSize(new Vector3());
+      this.stats = { ...this.stats, size: { x: size.x, y: size.y, z: size.z } };
+    }
+    this.parts = this.getParts();
+  }
+
+  private applyUnits(): void {
+    const unitScale = getUnitScale(this.units);
+    const factor = unitScale / this.unitScale;
+    if (!this.world || factor === 1) return;
+
+    this.world.scaleParts(factor);
+    this.unitScale = unitScale;
+    this.health = undefined;
+    this.overhangs = undefined;
+    this.printerFit = this.checkFit();
+    if (this.stats) this.stats = scaleStats(this.stats, factor);
+
+    // Measurements are in millimetres, so they scale with the model
+    const scale = (m: Measurement): Measurement => ({
+      ...m,
+      points: m.points.map((p) => p.clone().multiplyScalar(factor)),
+      value: m.type === "distance" ? m.value * factor : m.value,
+    });
+    this.measurements = this.measurements.map(scale);
+    this.pendingPoints = this.pendingPoints.map((p) =>
+      p.clone().multiplyScalar(factor),
+    );
+  }
+
+  private updateSection(): void {
+    if (!this.world) return;
+
+    const normal = parseSectionNormal(this.section);
+    this.world.setSection(
+      normal && {
+        normal,
+        position: this.sectionPosition,
+        flip: this.sectionFlip,
+      },
+    );
+  }
+
+  private updateMeasurementLayer(): void {
+    if (!this.world) return;
+
+    const radius = this.world.getBoundingSphere().radius;
+    const markerSize = (radius > 0 ? radius : 1) * 0.012;
+
+    this.world.measurementLayer.update(
+      this.measurements,
+      this.pendingPoints,
+      markerSize,
+    );
+  }
+
+  private updateMeasurementLabels(): void {
+    if (!this.world || this.measurements.length === 0) return;
+
+    const labels =
+      this.renderRoot.querySelectorAll<HTMLElement>(".measure-label");
+    for (const label of labels) {
+      const measurement = this.measurements.find(
+        (m) => m.id === Number(label.dataset.id),
+      );
+      const position =
+        measurement &&
+        this.world.projectToCanvas(getMeasurementAnchor(measurement));
+
+      if (position) {
+        label.style.display = "";
+        label.style.transform = `translate(${position.x}px, ${position.y}px)`;
+      } else {
+        label.style.display = "none";
+      }
+    }
+  }
+
+  private updateScaleBar(): void {
+    if (!this.world || !this.trueScale) return;
+
+    const bar = this.renderRoot.querySelector<HTMLElement>(".scale-bar");
+    if (!bar) return;
+
+    const pixelsPerMm = this.world.getPixelsPerUnit();
+    const length = getScaleBarLength(pixelsPerMm, 150);
+    bar.querySelector<HTMLElement>(".scale-bar-line")!.style.width =
+      `${length * pixelsPerMm}px`;
+    bar.querySelector<HTMLElement>(".scale-bar-label")!.textContent =
+      formatLength(length);
+  }
+
   private handleResize(): void {
     if (!this.world) return;
 
@@ -366,6 +1514,135 @@ export class STLViewer extends LitElement {
     this.resizeObserver.observe(container);
   }
 
+  private dispatchCameraChange(): void {
+    if (!this.cameraChanged || !this.world) return;
+    this.cameraChanged = false;
+
+    this.dispatchEvent(
+      new CustomEvent("camera-change", {
+        detail: this.world.getCameraState(),
+        bubbles: true,
+        composed: true,
+      }),
+    );
+  }
+
+  /**
+   * Downloads a model file, reporting the progress as events of `src`
+   */
+  private async downloadModel(
+    url: string,
+    src: string,
+    count: string,
+    signal: AbortSignal,
+    cache = this.cache,
+  ): Promise<ModelDownload> {
+    // Use custom fetch with CORS proxy support, through the model cache
+    // when it's enabled. Pass the component's corsProxy property if provided
+    this.loadingMessage = `Fetching model${count}...`;
+    const fetcher = (target: string, opts?: RequestInit) =>
+      fetchWithProxy(target, opts, this.corsProxy);
+    const response = cache
+      ? await fetchCachedModel(url, { signal }, fetcher)
+      : await fetcher(url, { signal });
+    if (!response.ok) {
+      throw new Error(
+        `Failed to load model: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    return this.readModelResponse(response, src, count, signal);
+  }
+
+  /**
+   * Reads a model response, reporting the progress as events of `src`
+   */
+  private async readModelResponse(
+    response: Response,
+    src: string,
+    count: string,
+    signal: AbortSignal,
+  ): Promise<ModelDownload> {
+    this.loadingMessage = `Downloading model${count}...`;
+    const buffer = await readResponseWithProgress(response, (progress) => {
+      if (signal.aborted) return;
+      this.progress = progress;
+      this.dispatchEvent(
+        new CustomEvent("load-progress", {
+          detail: { url: src, ...progress },
+          bubbles: true,
+          composed: true,
+        }),
+      );
+    });
+
+    return {
+      buffer,
+      mimeType: response.headers.get("content-type") ?? undefined,
+    };
+  }
+
+  /**
+   * Downloads a blob from the first Blossom server that has it, skipping
+   * servers that fail or return bytes that don't match the hash
+   *
+   * Blobs never change, so they bypass the revalidating model cache and are
+   * only cached once their hash checks out.
+   */
+  private async downloadBlossomBlob(
+    blob: BlossomBlob,
+    src: string,
+    count: string,
+    signal: AbortSignal,
+  ): Promise<ModelDownload> {
+    const servers = parseBlossomServers(this.blossomServers);
+    const urls = getBlossomUrls(
+      blob,
+      servers.length > 0 ? servers : getSettings().blossomServers,
+    );
+
+    if (!canVerifySha256()) {
+      throw new Error(
+        "Blossom models can only be loaded over HTTPS or on localhost, where their SHA-256 hash can be checked",
+      );
+    }
+
+    for (const url of urls) {
+      try {
+        const cached = this.cache ? await readCachedModel(url) : undefined;
+        const download = cached
+          ? await this.readModelResponse(cached, src, count, signal)
+          : await this.downloadModel(url, src, count, signal, false);
+        if (!(await verifySha256(download.buffer, blob.sha256))) {
+          console.warn(`${url} doesn't match its SHA-256 hash, skipping`);
+          continue;
+        }
+
+        if (this.cache && !cached) {
+          // Copied before the buffer is handed to the parse worker
+          const data = new Blob([download.buffer]);
+          storeModel(url, data, { contentType: download.mimeType }).catch(
+            (error) => console.warn("Error writing model cache:", error),
+          );
+        }
+        return download;
+      } catch (error) {
+        if (signal.aborted) throw error;
+        console.warn(`Failed to load ${url}:`, error);
+      }
+    }
+
+    throw new Error(`Couldn't find ${blob.sha256} on any Blossom server`);
+  }
+
+  private revokeBlobSources(keep: string[] = []): void {
+    for (const url of this.blobSources.keys()) {
+      if (keep.includes(url)) continue;
+      URL.revokeObjectURL(url);
+      this.blobSources.delete(url);
+    }
+  }
+
   private startAnimation(): void {
     if (this.isAnimating || !this.world) return;
 
@@ -373,6 +1650,9 @@ export class STLViewer extends LitElement {
     const animate = () => {
       if (this.isAnimating && this.world) {
         this.world.animate();
+        this.updateMeasurementLabels();
+        this.updateScaleBar();
+        this.dispatchCameraChange();
         this.animationFrameId = requestAnimationFrame(animate);
       }
     };
@@ -380,6 +1660,10 @@ export class STLViewer extends LitElement {
   }
 
   private cleanup(): void {
+    this.revokeBlobSources();
+    this.loadController?.abort();
+    this.loadController = undefined;
+    this.cancelRecording();
     this.isAnimating = false;
     if (this.animationFrameId) {
       cancelAnimationFrame(this.animationFrameId);
@@ -413,6 +1697,369 @@ export class STLViewer extends LitElement {
       height: 100%;
     }
 
+    canvas.measuring {
+      cursor: crosshair;
+    }
+
+    .bottom-panels {
+      position: absolute;
+      left: 50%;
+      bottom: 1rem;
+      transform: translateX(-50%);
+      max-width: calc(100% - 2rem);
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 0.5rem;
+      pointer-events: none;
+    }
+
+    .scale-bar {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 0.125rem;
+      color: #222;
+      font-size: 0.8rem;
+      font-family: monospace;
+      pointer-events: none;
+    }
+
+    .scale-bar-line {
+      height: 6px;
+      border: 2px solid #222;
+      border-top: none;
+      box-sizing: border-box;
+    }
+
+    .printer-warning {
+      padding: 0.5rem 1rem;
+      background: rgba(192, 28, 40, 0.95);
+      color: white;
+      border-radius: 8px;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+      font-size: 0.875rem;
+      font-weight: 600;
+      text-align: center;
+    }
+
+    .side-panels {
+      position: absolute;
+      right: 1rem;
+      bottom: 1rem;
+      display: flex;
+      flex-direction: column;
+      align-items: stretch;
+      gap: 0.5rem;
+    }
+
+    .parts-panel {
+      min-width: 200px;
+      max-width: 280px;
+      padding: 0.75rem;
+      background: rgba(255, 255, 255, 0.95);
+      color: #333;
+      border-radius: 8px;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+      font-size: 0.875rem;
+    }
+
+    .parts-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      font-weight: 600;
+    }
+
+    .parts-header button {
+      padding: 0.125rem 0.5rem;
+      background: #f0f0f0;
+      color: #333;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+    }
+
+    .parts-header button:hover {
+      background: #e0e0e0;
+    }
+
+    .parts-list {
+      max-height: 240px;
+      margin: 0.5rem 0 0 0;
+      padding: 0;
+      overflow-y: auto;
+      list-style: none;
+    }
+
+    .parts-list li {
+      display: flex;
+      align-items: center;
+      gap: 0.375rem;
+      padding: 0.125rem 0.25rem;
+      border-radius: 4px;
+    }
+
+    .parts-list li.selected {
+      background: rgba(255, 153, 0, 0.2);
+    }
+
+    .parts-list input {
+      margin: 0;
+    }
+
+    .parts-list input[type="color"] {
+      width: 1.5rem;
+      height: 1.25rem;
+      padding: 0;
+      border: none;
+      background: none;
+      cursor: pointer;
+    }
+
+    .part-name {
+      flex: 1;
+      min-width: 0;
+      padding: 0;
+      overflow: hidden;
+      background: none;
+      color: inherit;
+      border: none;
+      font: inherit;
+      text-align: left;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+      cursor: pointer;
+    }
+
+    .overhang-panel {
+      padding: 0.75rem;
+      background: rgba(255, 255, 255, 0.95);
+      color: #333;
+      border-radius: 8px;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+      font-size: 0.875rem;
+    }
+
+    .overhang-status {
+      font-weight: 600;
+    }
+
+    .overhang-status.ok {
+      color: #26a269;
+    }
+
+    .overhang-status.bad {
+      color: #c01c28;
+    }
+
+    .overhang-legend {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      margin-top: 0.5rem;
+      font-size: 0.75rem;
+    }
+
+    .overhang-gradient {
+      flex: 1;
+      height: 0.5rem;
+      border-radius: 2px;
+      background: linear-gradient(
+        to right,
+        #4dbf59,
+        #f2d933 var(--threshold),
+        #ff8c1a var(--threshold),
+        #d91a1a
+      );
+    }
+
+    .overhang-panel dl {
+      display: grid;
+      grid-template-columns: auto auto;
+      gap: 0.25rem 1rem;
+      margin: 0.5rem 0 0 0;
+    }
+
+    .overhang-panel dd {
+      margin: 0;
+      text-align: right;
+      font-family: monospace;
+    }
+
+    .health-panel {
+      padding: 0.75rem;
+      background: rgba(255, 255, 255, 0.95);
+      color: #333;
+      border-radius: 8px;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+      font-size: 0.875rem;
+    }
+
+    .health-status {
+      font-weight: 600;
+    }
+
+    .health-status.ok {
+      color: #26a269;
+    }
+
+    .health-status.bad {
+      color: #c01c28;
+    }
+
+    .health-note {
+      margin-top: 0.25rem;
+      color: #c01c28;
+      font-style: italic;
+    }
+
+    .health-panel dl {
+      display: grid;
+      grid-template-columns: auto auto;
+      gap: 0.25rem 1rem;
+      margin: 0.5rem 0 0 0;
+    }
+
+    .health-panel dd {
+      margin: 0;
+      text-align: right;
+      font-family: monospace;
+    }
+
+    .swatch {
+      display: inline-block;
+      width: 0.75rem;
+      height: 0.75rem;
+      margin-right: 0.5rem;
+      border-radius: 2px;
+      vertical-align: middle;
+    }
+
+    .swatch.boundary {
+      background: #ff2020;
+    }
+
+    .swatch.non-manifold {
+      background: #ff00ff;
+    }
+
+    .swatch.winding {
+      background: #ffee00;
+    }
+
+    .swatch.flipped {
+      background: #ff8800;
+    }
+
+    .swatch.degenerate {
+      background: #00e5ff;
+    }
+
+    .stats-panel {
+      display: grid;
+      grid-template-columns: auto auto;
+      gap: 0.25rem 1rem;
+      margin: 0;
+      padding: 0.75rem;
+      background: rgba(255, 255, 255, 0.95);
+      color: #333;
+      border-radius: 8px;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+      font-size: 0.875rem;
+    }
+
+    .stats-panel dt {
+      font-weight: 600;
+    }
+
+    .stats-panel dd {
+      margin: 0;
+      text-align: right;
+      font-family: monospace;
+    }
+
+    .measure-label {
+      position: absolute;
+      top: 0;
+      left: 0;
+      margin: -1.75rem 0 0 0.5rem;
+      padding: 0.125rem 0.5rem;
+      background: rgba(0, 0, 0, 0.75);
+      color: #ff9900;
+      border-radius: 4px;
+      font-size: 0.8rem;
+      font-family: monospace;
+      white-space: nowrap;
+      pointer-events: none;
+    }
+
+    .measure-panel {
+      position: absolute;
+      left: 1rem;
+      bottom: 1rem;
+      min-width: 200px;
+      max-width: 280px;
+      padding: 0.75rem;
+      background: rgba(255, 255, 255, 0.95);
+      color: #333;
+      border-radius: 8px;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+      font-size: 0.875rem;
+    }
+
+    .measure-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      font-weight: 600;
+    }
+
+    .measure-panel button {
+      padding: 0.125rem 0.5rem;
+      background: #f0f0f0;
+      color: #333;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+    }
+
+    .measure-panel button:hover {
+      background: #e0e0e0;
+    }
+
+    .measure-hint {
+      margin-top: 0.5rem;
+      color: #666;
+      font-style: italic;
+    }
+
+    .measure-list {
+      margin: 0.5rem 0 0 0;
+      padding-left: 1.25rem;
+    }
+
+    .measure-list:empty {
+      display: none;
+    }
+
+    .measure-list li {
+      margin: 0.25rem 0;
+    }
+
+    .measure-list li > * {
+      vertical-align: middle;
+    }
+
+    .measure-list strong {
+      margin-left: 0.5rem;
+      font-family: monospace;
+    }
+
+    .measure-list button {
+      margin-left: 0.5rem;
+    }
+
     .loading-overlay {
       position: absolute;
       top: 0;
@@ -471,6 +2118,60 @@ export class STLViewer extends LitElement {
       font-style: italic;
     }
 
+    .progress {
+      margin-top: 1rem;
+    }
+
+    .progress-bar {
+      height: 8px;
+      background: rgba(255, 255, 255, 0.2);
+      border-radius: 4px;
+      overflow: hidden;
+    }
+
+    .progress-fill {
+      height: 100%;
+      background: #1a5fb4;
+      transition: width 0.1s linear;
+    }
+
+    .progress-bar.indeterminate .progress-fill {
+      width: 30% !important;
+      animation: indeterminate 1.2s ease-in-out infinite;
+    }
+
+    @keyframes indeterminate {
+      from {
+        transform: translateX(-100%);
+      }
+      to {
+        transform: translateX(350%);
+      }
+    }
+
+    .progress-text {
+      margin-top: 0.5rem;
+      font-size: 0.8rem;
+      color: rgba(255, 255, 255, 0.8);
+      font-family: monospace;
+    }
+
+    .cancel-button {
+      margin-top: 1.5rem;
+      padding: 0.5rem 1.25rem;
+      background: rgba(255, 255, 255, 0.15);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.4);
+      border-radius: 8px;
+      font-size: 0.875rem;
+      cursor: pointer;
+      transition: background 0.2s;
+    }
+
+    .cancel-button:hover {
+      background: rgba(255, 255, 255, 0.25);
+    }
+
     .error-icon {
       font-size: 3rem;
       margin-bottom: 1rem;
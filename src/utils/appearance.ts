@@ -0,0 +1,65 @@
+/**
+ * Appearance
+ *
+ * Parses the attributes that control the look of the scene: the model
+ * colour, background, fog and the visibility of the floor and grid
+ */
+
+import { Color } from "three";
+
+/** Fog start and end distances as multiples of the model's radius */
+export interface FogRange {
+  near: number;
+  far: number;
+}
+
+export interface Appearance {
+  /** Color of parts that don't have their own */
+  color: Color;
+  /** Scene background and fog color, undefined for a transparent background */
+  background?: Color;
+  /** Undefined turns the fog off */
+  fog?: FogRange;
+  showGrid: boolean;
+  showFloor: boolean;
+}
+
+export const DEFAULT_MODEL_COLOR = "#1a5fb4";
+export const DEFAULT_BACKGROUND = "#a0a0a0";
+export const DEFAULT_FOG: FogRange = { near: 2, far: 10 };
+
+/**
+ * Parses a CSS color, returning undefined for empty or invalid values
+ */
+export function parseColor(value: string): Color | undefined {
+  const style = value.trim();
+  if (!style || !CSS.supports("color", style)) return undefined;
+
+  return new Color().setStyle(style);
+}
+
+/**
+ * Parses a background attribute value, where "transparent" shows the page
+ * behind the viewer
+ */
+export function parseBackground(value: string): Color | undefined {
+  if (value.trim().toLowerCase() === "transparent") return undefined;
+  return parseColor(value) ?? new Color(DEFAULT_BACKGROUND);
+}
+
+/**
+ * Parses a fog attribute value: "off" to disable the fog, or "near,far"
+ * distances as multiples of the model's radius. Anything else gives the
+ * default fog.
+ */
+export function parseFog(value: string): FogRange | undefined {
+  const key = value.trim().toLowerCase();
+  if (key === "off" || key === "none" || key === "false") return undefined;
+
+  const parts = key.split(",").map((v) => Number(v.trim()));
+  const [near, far] = parts;
+  if (parts.length === 2 && near >= 0 && far > near && Number.isFinite(far)) {
+    return { near, far };
+  }
+  return { ...DEFAULT_FOG };
+}
@@ -0,0 +1,86 @@
+/**
+ * Blossom Utilities
+ *
+ * Blossom servers store files by the SHA-256 hash of their contents. A model
+ * given as "blossom:<sha256>" or a bare hash is downloaded from the first
+ * server that has it, and the bytes are checked against the hash.
+ */
+
+/** Servers the site is published to, from .nsite/config.json */
+export const DEFAULT_BLOSSOM_SERVERS = [
+  "https://cdn.hzrd149.com",
+  "https://nostr.download",
+  "https://blossom.primal.net",
+];
+
+export interface BlossomBlob {
+  /** Lower case hex SHA-256 hash */
+  sha256: string;
+  /** File extension given after the hash, like "stl" */
+  extension?: string;
+}
+
+const BLOSSOM_PATTERN = /^(?:blossom:)?([0-9a-f]{64})(?:\.(\w+))?$/i;
+
+/**
+ * Parses "blossom:<sha256>", optionally with a file extension, or a bare
+ * hash. Returns undefined for anything else.
+ */
+export function parseBlossomUri(src: string): BlossomBlob | undefined {
+  const match = src.trim().match(BLOSSOM_PATTERN);
+  if (!match) return undefined;
+
+  const [, sha256, extension] = match;
+  return {
+    sha256: sha256.toLowerCase(),
+    extension: extension?.toLowerCase(),
+  };
+}
+
+/**
+ * Parses a whitespace or comma separated list of server URLs
+ */
+export function parseBlossomServers(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((server) => server.trim().replace(/\/+$/, ""))
+    .filter((server) => /^https?:\/\//i.test(server));
+}
+
+/**
+ * Returns the URL of a blob on each server, in order
+ */
+export function getBlossomUrls(blob: BlossomBlob, servers: string[]): string[] {
+  const file = blob.extension
+    ? `${blob.sha256}.${blob.extension}`
+    : blob.sha256;
+  return servers.map((server) => `${server.replace(/\/+$/, "")}/${file}`);
+}
+
+/**
+ * Returns true when SHA-256 hashes can be computed, which needs a secure
+ * context (HTTPS or localhost)
+ */
+export function canVerifySha256(): boolean {
+  return !!globalThis.crypto?.subtle;
+}
+
+/**
+ * Returns true when the SHA-256 hash of a buffer matches
+ */
+export async function verifySha256(
+  buffer: ArrayBuffer,
+  sha256: string,
+): Promise<boolean> {
+  if (!canVerifySha256()) {
+    throw new Error(
+      "SHA-256 hashes can only be checked over HTTPS or on localhost",
+    );
+  }
+
+  const digest = await crypto.subtle.digest("SHA-256", buffer);
+  const hex = Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+  return hex === sha256.toLowerCase();
+}
@@ -0,0 +1,144 @@
+/**
+ * Build Volume
+ *
+ * Draws a printer bed and the outline of its build volume at the model's
+ * true scale, centered under the model
+ */
+
+import {
+  BoxGeometry,
+  BufferAttribute,
+  BufferGeometry,
+  DoubleSide,
+  EdgesGeometry,
+  Group,
+  LineBasicMaterial,
+  LineSegments,
+  Mesh,
+  MeshBasicMaterial,
+  type Object3D,
+  PlaneGeometry,
+  type Box3,
+} from "three";
+import type { PrinterSize } from "./printers";
+
+// Spacing of the bed grid lines in mm
+const GRID_SPACING = 10;
+
+const FITS_COLOR = 0x1a5fb4;
+const OUT_OF_BOUNDS_COLOR = 0xc01c28;
+
+export interface BuildVolumeLayer {
+  group: Group;
+  /** Draws the build volume under the model bounds, or hides it */
+  update: (
+    printer: PrinterSize | undefined,
+    bounds: Box3,
+    fits: boolean,
+  ) => void;
+}
+
+function createBedGrid(printer: PrinterSize) {
+  const positions: number[] = [];
+  const halfX = printer.x / 2;
+  const halfY = printer.y / 2;
+
+  for (let x = GRID_SPACING; x < printer.x; x += GRID_SPACING) {
+    positions.push(x - halfX, -halfY, 0, x - halfX, halfY, 0);
+  }
+  for (let y = GRID_SPACING; y < printer.y; y += GRID_SPACING) {
+    positions.push(-halfX, y - halfY, 0, halfX, y - halfY, 0);
+  }
+
+  const geometry = new BufferGeometry();
+  geometry.setAttribute(
+    "position",
+    new BufferAttribute(new Float32Array(positions), 3),
+  );
+  return geometry;
+}
+
+/**
+ * Creates the layer that shows a printer's build volume in model coordinates
+ */
+export function createBuildVolumeLayer(parent: Object3D): BuildVolumeLayer {
+  const group = new Group();
+  group.name = "build-volume";
+  group.visible = false;
+  parent.add(group);
+
+  const bedMaterial = new MeshBasicMaterial({
+    color: 0xffffff,
+    side: DoubleSide,
+    transparent: true,
+    opacity: 0.5,
+    depthWrite: false,
+    polygonOffset: true,
+    polygonOffsetFactor: -1,
+    polygonOffsetUnits: -1,
+  });
+  const gridMaterial = new LineBasicMaterial({
+    color: 0x000000,
+    transparent: true,
+    opacity: 0.25,
+  });
+  const outlineMaterial = new LineBasicMaterial({ color: FITS_COLOR });
+
+  let current: PrinterSize | undefined;
+
+  function clear() {
+    for (const child of [...group.children]) {
+      if (child instanceof Mesh || child instanceof LineSegments) {
+        child.geometry.dispose();
+      }
+      group.remove(child);
+    }
+  }
+
+  function build(printer: PrinterSize) {
+    clear();
+
+    const bed = new Mesh(new PlaneGeometry(printer.x, printer.y), bedMaterial);
+    bed.raycast = () => {};
+    group.add(bed);
+
+    const grid = new LineSegments(createBedGrid(printer), gridMaterial);
+    grid.raycast = () => {};
+    group.add(grid);
+
+    const box = new BoxGeometry(printer.x, printer.y, printer.z);
+    box.translate(0, 0, printer.z / 2);
+    const outline = new LineSegments(new EdgesGeometry(box), outlineMaterial);
+    outline.raycast = () => {};
+    box.dispose();
+    group.add(outline);
+  }
+
+  function update(
+    printer: PrinterSize | undefined,
+    bounds: Box3,
+    fits: boolean,
+  ) {
+    group.visible = !!printer && !bounds.isEmpty();
+    if (!printer) return;
+
+    if (
+      !current ||
+      current.x !== printer.x ||
+      current.y !== printer.y ||
+      current.z !== printer.z
+    ) {
+      build(printer);
+      current = { ...printer };
+    }
+
+    group.position.set(
+      (bounds.min.x + bounds.max.x) / 2,
+      (bounds.min.y + bounds.max.y) / 2,
+      bounds.min.z,
+    );
+    outlineMaterial.color.set(fits ? FITS_COLOR : OUT_OF_BOUNDS_COLOR);
+  }
+
+  return { group, update };
+}
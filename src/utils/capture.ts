@@ -0,0 +1,199 @@
+/**
+ * Capture Utilities
+ *
+ * Helpers for exporting images and turntable videos from the viewer canvas
+ */
+
+import { Vector3 } from "three";
+import type { STLWorld } from "../world";
+
+export interface ScreenshotOptions {
+  /** Image width in pixels, defaults to the canvas width */
+  width?: number;
+  /** Image height in pixels, defaults to the canvas height */
+  height?: number;
+  /** Render without the background, fog, floor and grid */
+  transparent?: boolean;
+  /** Image MIME type (default: "image/png") */
+  type?: string;
+}
+
+export interface TurntableOptions {
+  /** Length of one full rotation in seconds (default: 6) */
+  duration?: number;
+  /** Frames per second of the recording (default: 30) */
+  fps?: number;
+  /** Video bitrate in bits per second (default: 8 Mbps) */
+  bitrate?: number;
+}
+
+const VIDEO_TYPES = [
+  "video/webm;codecs=vp9",
+  "video/webm;codecs=vp8",
+  "video/webm",
+];
+
+/**
+ * Returns the first WebM type MediaRecorder supports in this browser
+ */
+export function getSupportedVideoType(): string | undefined {
+  if (typeof MediaRecorder === "undefined") return undefined;
+  return VIDEO_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to capture image")),
+      type,
+    );
+  });
+}
+
+/**
+ * Renders the world at any resolution and returns the image
+ *
+ * The renderer is resized for a single frame, copied into a 2D canvas and
+ * then restored, so the visible canvas is left untouched.
+ */
+export async function captureScreenshot(
+  world: STLWorld,
+  options: ScreenshotOptions = {},
+): Promise<Blob> {
+  const { renderer, scene, camera, floor, grid } = world;
+  const canvas = renderer.domElement;
+
+  const maxSize = renderer.capabilities.maxTextureSize;
+  const width = Math.min(Math.round(options.width ?? canvas.width), maxSize);
+  const height = Math.min(Math.round(options.height ?? canvas.height), maxSize);
+  if (width <= 0 || height <= 0) throw new Error("Invalid screenshot size");
+
+  const saved = {
+    width: canvas.width,
+    height: canvas.height,
+    aspect: camera.aspect,
+    background: scene.background,
+    fog: scene.fog,
+    floor: floor.visible,
+    grid: grid.visible,
+  };
+
+  const output = document.createElement("canvas");
+  output.width = width;
+  output.height = height;
+
+  try {
+    if (options.transparent) {
+      scene.background = null;
+      scene.fog = null;
+      floor.visible = false;
+      grid.visible = false;
+    }
+
+    renderer.setSize(width, height, false);
+    camera.aspect = width / height;
+    camera.updateProjectionMatrix();
+    renderer.render(scene, camera);
+
+    output.getContext("2d")!.drawImage(canvas, 0, 0);
+  } finally {
+    scene.background = saved.background;
+    scene.fog = saved.fog;
+    floor.visible = saved.floor;
+    grid.visible = saved.grid;
+
+    renderer.setSize(saved.width, saved.height, false);
+    camera.aspect = saved.aspect;
+    camera.updateProjectionMatrix();
+    renderer.render(scene, camera);
+  }
+
+  return canvasToBlob(output, options.type ?? "image/png");
+}
+
+/**
+ * Records a 360° rotation of the camera around the model as a WebM video
+ */
+export function recordTurntable(
+  world: STLWorld,
+  options: TurntableOptions = {},
+  signal?: AbortSignal,
+): Promise<Blob> {
+  const type = getSupportedVideoType();
+  if (!type) {
+    return Promise.reject(
+      new Error("Video recording is not supported in this browser"),
+    );
+  }
+
+  const { camera, controls, renderer } = world;
+  const duration = (options.duration ?? 6) * 1000;
+  const fps = options.fps ?? 30;
+
+  const stream = renderer.domElement.captureStream(fps);
+  const recorder = new MediaRecorder(stream, {
+    mimeType: type,
+    videoBitsPerSecond: options.bitrate ?? 8_000_000,
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+
+  const startState = world.getCameraState();
+  const target = controls.target.clone();
+  const offset = camera.position.clone().sub(target);
+  const up = new Vector3(0, 1, 0);
+  const controlsEnabled = controls.enabled;
+  controls.enabled = false;
+
+  return new Promise((resolve, reject) => {
+    let start: number | undefined;
+    let frame: number;
+
+    const finish = () => {
+      cancelAnimationFrame(frame);
+      controls.enabled = controlsEnabled;
+      world.setCameraState(startState);
+      signal?.removeEventListener("abort", handleAbort);
+    };
+
+    const handleAbort = () => {
+      finish();
+      recorder.onstop = null;
+      recorder.stop();
+      reject(new DOMException("Recording was cancelled", "AbortError"));
+    };
+    signal?.addEventListener("abort", handleAbort);
+
+    recorder.onstop = () => {
+      resolve(new Blob(chunks, { type: "video/webm" }));
+    };
+    recorder.onerror = () => {
+      finish();
+      reject(new Error("Video recording failed"));
+    };
+
+    const step = (time: number) => {
+      start ??= time;
+      const progress = Math.min((time - start) / duration, 1);
+
+      camera.position
+        .copy(offset)
+        .applyAxisAngle(up, progress * Math.PI * 2)
+        .add(target);
+      camera.lookAt(target);
+
+      if (progress < 1) {
+        frame = requestAnimationFrame(step);
+      } else {
+        finish();
+        recorder.stop();
+      }
+    };
+
+    recorder.start();
+    frame = requestAnimationFrame(step);
+  });
+}
@@ -90,6 +90,7 @@ export async function fetchWithProxy(
     try {
       return await fetch(createRequestProxyUrl(url, proxyUrl), opts);
     } catch (e) {
+      if (opts?.signal?.aborted) throw e;
       console.warn(`Proxy failed for ${host}, trying direct connection`, e);
       proxyFailedHosts.add(host);
       return fetch(url, opts);
@@ -105,6 +106,7 @@ export async function fetchWithProxy(
   try {
     return await fetch(url, opts);
   } catch (e) {
+    if (opts?.signal?.aborted) throw e;
     console.warn(`Direct fetch failed for ${host}, trying proxy`, e);
     clearNetFailedHosts.add(host);
     return fetch(createRequestProxyUrl(url, proxyUrl), opts);
@@ -0,0 +1,85 @@
+/**
+ * Download Utilities
+ *
+ * Reads a fetch response body while reporting byte-level progress
+ */
+
+export interface DownloadProgress {
+  /** Bytes received so far */
+  received: number;
+  /** Total bytes, when the server reported a usable Content-Length */
+  total?: number;
+  /** Percentage between 0 and 100, when the total is known */
+  percent?: number;
+  /** Average transfer rate in bytes per second */
+  rate: number;
+}
+
+const PROGRESS_INTERVAL = 100;
+
+/**
+ * Reads a response body into an ArrayBuffer, calling `onProgress` at most
+ * every 100ms and once more when the download completes
+ */
+export async function readResponseWithProgress(
+  response: Response,
+  onProgress: (progress: DownloadProgress) => void,
+): Promise<ArrayBuffer> {
+  const length = Number(response.headers.get("content-length"));
+  let total = Number.isFinite(length) && length > 0 ? length : undefined;
+
+  if (!response.body) {
+    const buffer = await response.arrayBuffer();
+    onProgress({
+      received: buffer.byteLength,
+      total: buffer.byteLength,
+      percent: 100,
+      rate: 0,
+    });
+    return buffer;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  const start = performance.now();
+  let received = 0;
+  let lastReport = 0;
+
+  const report = () => {
+    // Compressed responses report the compressed size, so the total is unreliable
+    if (total !== undefined && received > total) total = undefined;
+
+    const elapsed = (performance.now() - start) / 1000;
+    onProgress({
+      received,
+      total,
+      percent: total ? (received / total) * 100 : undefined,
+      rate: elapsed > 0 ? received / elapsed : 0,
+    });
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    chunks.push(value);
+    received += value.byteLength;
+
+    const now = performance.now();
+    if (now - lastReport >= PROGRESS_INTERVAL) {
+      lastReport = now;
+      report();
+    }
+  }
+
+  if (total === undefined || received < total) total = received;
+  report();
+
+  const buffer = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return buffer.buffer;
+}
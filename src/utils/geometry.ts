@@ -0,0 +1,185 @@
+/**
+ * Geometry Utilities
+ *
+ * Low level helpers for walking the triangles of a BufferGeometry
+ */
+
+import {
+  BufferAttribute,
+  type BufferGeometry,
+  type InterleavedBufferAttribute,
+} from "three";
+
+/**
+ * Returns the number of triangles in a geometry, indexed or not
+ */
+export function getTriangleCount(geometry: BufferGeometry): number {
+  const position = geometry.getAttribute("position");
+  if (!position) return 0;
+
+  return Math.floor((geometry.index?.count ?? position.count) / 3);
+}
+
+/**
+ * Returns the position index of each triangle corner
+ *
+ * For non-indexed geometries this is simply 0, 1, 2, ...
+ */
+export function getTriangleIndices(
+  geometry: BufferGeometry,
+): ArrayLike<number> {
+  if (geometry.index) return geometry.index.array;
+
+  const position = geometry.getAttribute("position");
+  const indices = new Uint32Array(position ? position.count : 0);
+  for (let i = 0; i < indices.length; i++) indices[i] = i;
+  return indices;
+}
+
+export interface WeldedVertices {
+  /** Unique vertex index for each triangle corner */
+  indices: Uint32Array;
+  /** Number of unique vertices */
+  count: number;
+}
+
+/**
+ * Merges triangle corners that share the exact same position
+ *
+ * STL files store every triangle separately, so this is needed to recover
+ * the connectivity between faces.
+ */
+export function weldVertices(geometry: BufferGeometry): WeldedVertices {
+  const corners = getTriangleIndices(geometry);
+  const indices = new Uint32Array(corners.length);
+  const count = weld(geometry, corners, indices);
+  return { indices, count };
+}
+
+/**
+ * Returns the number of unique vertex positions, without allocating an
+ * index for every corner
+ */
+export function countUniqueVertices(geometry: BufferGeometry): number {
+  const position = geometry.getAttribute("position");
+  if (!position) return 0;
+
+  // Without an index the corners are simply 0, 1, 2, ...
+  return weld(geometry, geometry.index?.array);
+}
+
+/**
+ * Assigns a unique index to each distinct position, hashing the bits of the
+ * Float32 coordinates in an open addressing table. Comparing the bits keeps
+ * this exact, like comparing the coordinates themselves, apart from -0 which
+ * is treated as 0.
+ */
+function weld(
+  geometry: BufferGeometry,
+  corners: ArrayLike<number> | undefined,
+  indices?: Uint32Array,
+): number {
+  const position = geometry.getAttribute("position");
+  if (!position) return 0;
+
+  const positions = getPositions(position);
+  const bits = new Uint32Array(
+    positions.buffer,
+    positions.byteOffset,
+    positions.length,
+  );
+  const length = corners ? corners.length : position.count;
+
+  // Slot -> position index + 1 of the first vertex seen there, and its
+  // unique index. The table is doubled to stay at most half full.
+  let capacity = 1024;
+  let slots = new Uint32Array(capacity);
+  let values = new Uint32Array(capacity);
+  let count = 0;
+
+  for (let i = 0; i < length; i++) {
+    const v = corners ? corners[i] : i;
+    let slot = hashPosition(bits, v) & (capacity - 1);
+    let index = -1;
+
+    while (slots[slot] !== 0) {
+      if (samePosition(bits, slots[slot] - 1, v)) {
+        index = values[slot];
+        break;
+      }
+      slot = (slot + 1) & (capacity - 1);
+    }
+
+    if (index === -1) {
+      index = count++;
+      slots[slot] = v + 1;
+      values[slot] = index;
+
+      if (count * 2 > capacity) {
+        const oldSlots = slots;
+        const oldValues = values;
+        capacity *= 2;
+        slots = new Uint32Array(capacity);
+        values = new Uint32Array(capacity);
+
+        for (let s = 0; s < oldSlots.length; s++) {
+          if (oldSlots[s] === 0) continue;
+          let target = hashPosition(bits, oldSlots[s] - 1) & (capacity - 1);
+          while (slots[target] !== 0) target = (target + 1) & (capacity - 1);
+          slots[target] = oldSlots[s];
+          values[target] = oldValues[s];
+        }
+      }
+    }
+
+    if (indices) indices[i] = index;
+  }
+
+  return count;
+}
+
+/**
+ * Returns the positions as a tightly packed Float32Array, copying them only
+ * when the attribute is interleaved or stored in another type
+ */
+function getPositions(
+  position: BufferAttribute | InterleavedBufferAttribute,
+): Float32Array {
+  if (
+    position instanceof BufferAttribute &&
+    position.array instanceof Float32Array &&
+    position.itemSize === 3
+  ) {
+    return position.array;
+  }
+
+  const positions = new Float32Array(position.count * 3);
+  for (let i = 0; i < position.count; i++) {
+    positions[i * 3] = position.getX(i);
+    positions[i * 3 + 1] = position.getY(i);
+    positions[i * 3 + 2] = position.getZ(i);
+  }
+  return positions;
+}
+
+const NEGATIVE_ZERO = 0x80000000;
+
+function coordinateBits(bits: Uint32Array, offset: number): number {
+  const value = bits[offset];
+  return value === NEGATIVE_ZERO ? 0 : value;
+}
+
+function hashPosition(bits: Uint32Array, vertex: number): number {
+  let hash = Math.imul(coordinateBits(bits, vertex * 3), 0x9e3779b1);
+  hash ^= Math.imul(coordinateBits(bits, vertex * 3 + 1), 0x85ebca77);
+  hash ^= Math.imul(coordinateBits(bits, vertex * 3 + 2), 0xc2b2ae3d);
+  return (hash ^ (hash >>> 15)) >>> 0;
+}
+
+function samePosition(bits: Uint32Array, a: number, b: number): boolean {
+  return (
+    coordinateBits(bits, a * 3) === coordinateBits(bits, b * 3) &&
+    coordinateBits(bits, a * 3 + 1) === coordinateBits(bits, b * 3 + 1) &&
+    coordinateBits(bits, a * 3 + 2) === coordinateBits(bits, b * 3 + 2)
+  );
+}
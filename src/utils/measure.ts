@@ -0,0 +1,160 @@
+/**
+ * Measurement Utilities
+ *
+ * Helpers for point-to-point distance and three-point angle measurements,
+ * along with a scene layer that draws the picked points and lines.
+ */
+
+import {
+  BufferGeometry,
+  Group,
+  Line,
+  LineBasicMaterial,
+  Mesh,
+  MeshBasicMaterial,
+  type Object3D,
+  SphereGeometry,
+  Vector3,
+} from "three";
+import { type ModelUnits, UNIT_LABELS, UNIT_SCALE } from "./units";
+
+export type MeasureMode = "off" | "distance" | "angle";
+
+export interface Measurement {
+  id: number;
+  type: "distance" | "angle";
+  /** Picked points in the model's original (unscaled) coordinates */
+  points: Vector3[];
+  /** Distance in millimetres, or angle in degrees */
+  value: number;
+}
+
+/** Number of points needed to complete a measurement of each type */
+export const MEASURE_POINT_COUNT = { distance: 2, angle: 3 } as const;
+
+const MEASURE_COLOR = 0xff9900;
+const PENDING_COLOR = 0xffffff;
+
+/**
+ * Returns the straight-line distance between two points
+ */
+export function measureDistance(a: Vector3, b: Vector3): number {
+  return a.distanceTo(b);
+}
+
+/**
+ * Returns the angle at vertex `b` formed by the points `a`, `b`, `c` in degrees
+ */
+export function measureAngle(a: Vector3, b: Vector3, c: Vector3): number {
+  const ba = new Vector3().subVectors(a, b);
+  const bc = new Vector3().subVectors(c, b);
+  if (ba.lengthSq() === 0 || bc.lengthSq() === 0) return 0;
+  return (ba.angleTo(bc) * 180) / Math.PI;
+}
+
+/**
+ * Formats a measurement value for display, with distances in the units the
+ * model was exported in
+ */
+export function formatMeasurement(
+  measurement: Measurement,
+  units: ModelUnits = "mm",
+): string {
+  if (measurement.type === "angle") return `${measurement.value.toFixed(1)}°`;
+
+  const value = measurement.value / UNIT_SCALE[units];
+  return `${value.toFixed(2)} ${UNIT_LABELS[units]}`;
+}
+
+/**
+ * Returns the point a measurement label should be anchored to
+ */
+export function getMeasurementAnchor(measurement: Measurement): Vector3 {
+  if (measurement.type === "angle") return measurement.points[1].clone();
+
+  return new Vector3()
+    .addVectors(measurement.points[0], measurement.points[1])
+    .multiplyScalar(0.5);
+}
+
+export interface MeasurementLayer {
+  group: Group;
+  update: (
+    measurements: Measurement[],
+    pending: Vector3[],
+    markerSize: number,
+  ) => void;
+}
+
+/**
+ * Creates a layer that draws measurement markers and lines
+ *
+ * The layer is attached to `parent` so the points, which are stored in the
+ * model's original coordinates, follow the model transform.
+ */
+export function createMeasurementLayer(parent: Object3D): MeasurementLayer {
+  const group = new Group();
+  group.name = "measurements";
+  parent.add(group);
+
+  const markerGeometry = new SphereGeometry(1, 12, 8);
+  const measureMaterial = new MeshBasicMaterial({
+    color: MEASURE_COLOR,
+    depthTest: false,
+  });
+  const pendingMaterial = new MeshBasicMaterial({
+    color: PENDING_COLOR,
+    depthTest: false,
+  });
+  const lineMaterial = new LineBasicMaterial({
+    color: MEASURE_COLOR,
+    depthTest: false,
+  });
+
+  function addMarker(
+    point: Vector3,
+    size: number,
+    material: MeshBasicMaterial,
+  ) {
+    const marker = new Mesh(markerGeometry, material);
+    marker.position.copy(point);
+    marker.scale.setScalar(size);
+    marker.renderOrder = 999;
+    group.add(marker);
+  }
+
+  function addLine(points: Vector3[]) {
+    const line = new Line(
+      new BufferGeometry().setFromPoints(points),
+      lineMaterial,
+    );
+    line.renderOrder = 998;
+    group.add(line);
+  }
+
+  function update(
+    measurements: Measurement[],
+    pending: Vector3[],
+    markerSize: number,
+  ) {
+    // Rebuild the layer, only line geometries are owned by the children
+    for (const child of [...group.children]) {
+      if (child instanceof Line) child.geometry.dispose();
+      group.remove(child);
+    }
+
+    for (const measurement of measurements) {
+      for (const point of measurement.points) {
+        addMarker(point, markerSize, measureMaterial);
+      }
+      addLine(measurement.points);
+    }
+
+    for (const point of pending) {
+      addMarker(point, markerSize, pendingMaterial);
+    }
+    if (pending.length > 1) addLine(pending);
+  }
+
+  return { group, update };
+}
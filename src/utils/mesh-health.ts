@@ -0,0 +1,357 @@
+/**
+ * Mesh Health
+ *
+ * Checks whether a model is watertight and printable by looking for open
+ * boundaries, non-manifold edges, degenerate triangles and faces whose
+ * winding or normals disagree with their neighbours. Also provides a scene
+ * layer that highlights the defects.
+ */
+
+import {
+  BufferAttribute,
+  BufferGeometry,
+  DoubleSide,
+  Group,
+  LineBasicMaterial,
+  LineSegments,
+  Mesh,
+  MeshBasicMaterial,
+  type Object3D,
+  Points,
+  PointsMaterial,
+  Vector3,
+} from "three";
+import { getTriangleCount, getTriangleIndices, weldVertices } from "./geometry";
+
+export interface MeshHealthReport {
+  /** True when every edge is shared by exactly two consistently wound faces */
+  watertight: boolean;
+  /** Edges used by only one face */
+  boundaryEdges: number;
+  /** Number of closed loops formed by the boundary edges */
+  holes: number;
+  /** Edges shared by more than two faces */
+  nonManifoldEdges: number;
+  /** Edges where the two faces are wound in the same direction */
+  inconsistentEdges: number;
+  /** Faces with zero area or repeated vertices */
+  degenerateTriangles: number;
+  /** Faces whose stored normal points against their winding */
+  flippedNormals: number;
+  /** True when a closed mesh has all its normals pointing inwards */
+  inverted: boolean;
+}
+
+/** Defect geometry in the model's original coordinates */
+export interface MeshDefects {
+  boundaryEdges: number[];
+  nonManifoldEdges: number[];
+  inconsistentEdges: number[];
+  degenerateTriangles: number[];
+  flippedFaces: number[];
+}
+
+export interface MeshHealth {
+  report: MeshHealthReport;
+  defects: MeshDefects;
+}
+
+// Per-edge bookkeeping is packed into one number: use count * 4 + direction flags
+const FORWARD = 1;
+const BACKWARD = 2;
+
+/**
+ * Returns true when a health report has no defects
+ */
+export function isHealthy(report: MeshHealthReport): boolean {
+  return (
+    report.watertight &&
+    report.degenerateTriangles === 0 &&
+    report.flippedNormals === 0 &&
+    !report.inverted
+  );
+}
+
+function findRoot(parents: Map<number, number>, v: number): number {
+  let root = v;
+  while (parents.get(root) !== root) root = parents.get(root)!;
+  // Path compression
+  while (v !== root) {
+    const next = parents.get(v)!;
+    parents.set(v, root);
+    v = next;
+  }
+  return root;
+}
+
+function analyzeGeometry(
+  geometry: BufferGeometry,
+  report: MeshHealthReport,
+  defects: MeshDefects,
+): number {
+  const position = geometry.getAttribute("position");
+  const normal = geometry.getAttribute("normal");
+  const corners = getTriangleIndices(geometry);
+  const triangles = getTriangleCount(geometry);
+  const welded = weldVertices(geometry);
+  const vertexCount = welded.count;
+
+  if (!geometry.boundingBox) geometry.computeBoundingBox();
+  const diagonal = geometry.boundingBox!.getSize(new Vector3()).length();
+  const minArea = diagonal * diagonal * 1e-12;
+
+  const a = new Vector3();
+  const b = new Vector3();
+  const c = new Vector3();
+  const faceNormal = new Vector3();
+  const storedNormal = new Vector3();
+  const n = new Vector3();
+
+  const pushPoint = (target: number[], index: number) =>
+    target.push(
+      position.getX(index),
+      position.getY(index),
+      position.getZ(index),
+    );
+
+  const edges = new Map<number, number>();
+  const edgeCorners = new Map<number, [number, number]>();
+  let signedVolume = 0;
+
+  for (let t = 0; t < triangles; t++) {
+    const i0 = corners[t * 3];
+    const i1 = corners[t * 3 + 1];
+    const i2 = corners[t * 3 + 2];
+    const v = [
+      welded.indices[t * 3],
+      welded.indices[t * 3 + 1],
+      welded.indices[t * 3 + 2],
+    ];
+
+    a.fromBufferAttribute(position, i0);
+    b.fromBufferAttribute(position, i1);
+    c.fromBufferAttribute(position, i2);
+    faceNormal.crossVectors(b.clone().sub(a), c.clone().sub(a));
+    signedVolume += a.dot(n.crossVectors(b, c)) / 6;
+
+    const collapsed = v[0] === v[1] || v[1] === v[2] || v[0] === v[2];
+    const zeroArea = faceNormal.length() / 2 <= minArea;
+
+    if (collapsed || zeroArea) {
+      report.degenerateTriangles++;
+      pushPoint(defects.degenerateTriangles, i0);
+      pushPoint(defects.degenerateTriangles, i1);
+      pushPoint(defects.degenerateTriangles, i2);
+
+      // Slivers still close the surface, collapsed faces don't have real edges
+      if (collapsed) continue;
+    }
+
+    if (normal && !zeroArea) {
+      storedNormal
+        .fromBufferAttribute(normal, i0)
+        .add(n.fromBufferAttribute(normal, i1))
+        .add(n.fromBufferAttribute(normal, i2));
+      if (storedNormal.lengthSq() > 0 && storedNormal.dot(faceNormal) < 0) {
+        report.flippedNormals++;
+        pushPoint(defects.flippedFaces, i0);
+        pushPoint(defects.flippedFaces, i1);
+        pushPoint(defects.flippedFaces, i2);
+      }
+    }
+
+    const cornerIndices = [i0, i1, i2];
+    for (let e = 0; e < 3; e++) {
+      const from = v[e];
+      const to = v[(e + 1) % 3];
+      const key = from < to ? from * vertexCount + to : to * vertexCount + from;
+      const flag = from < to ? FORWARD : BACKWARD;
+
+      const value = edges.get(key) ?? 0;
+      edges.set(key, (value | flag) + 4);
+      if (value === 0) {
+        edgeCorners.set(key, [cornerIndices[e], cornerIndices[(e + 1) % 3]]);
+      }
+    }
+  }
+
+  let closed = true;
+  const boundaryParents = new Map<number, number>();
+
+  for (const [key, value] of edges) {
+    const count = value >> 2;
+    const [from, to] = edgeCorners.get(key)!;
+
+    if (count === 1) {
+      closed = false;
+      report.boundaryEdges++;
+      pushPoint(defects.boundaryEdges, from);
+      pushPoint(defects.boundaryEdges, to);
+
+      // Track connected boundary vertices to count the holes
+      const va = Math.floor(key / vertexCount);
+      const vb = key % vertexCount;
+      if (!boundaryParents.has(va)) boundaryParents.set(va, va);
+      if (!boundaryParents.has(vb)) boundaryParents.set(vb, vb);
+      boundaryParents.set(
+        findRoot(boundaryParents, va),
+        findRoot(boundaryParents, vb),
+      );
+    } else if (count > 2) {
+      closed = false;
+      report.nonManifoldEdges++;
+      pushPoint(defects.nonManifoldEdges, from);
+      pushPoint(defects.nonManifoldEdges, to);
+    } else if ((value & (FORWARD | BACKWARD)) !== (FORWARD | BACKWARD)) {
+      closed = false;
+      report.inconsistentEdges++;
+      pushPoint(defects.inconsistentEdges, from);
+      pushPoint(defects.inconsistentEdges, to);
+    }
+  }
+
+  const roots = new Set<number>();
+  for (const v of boundaryParents.keys())
+    roots.add(findRoot(boundaryParents, v));
+  report.holes += roots.size;
+
+  if (!closed) report.watertight = false;
+  return closed ? signedVolume : 0;
+}
+
+/**
+ * Analyzes the geometries of a model for printability defects
+ */
+export function analyzeMeshHealth(geometries: BufferGeometry[]): MeshHealth {
+  const report: MeshHealthReport = {
+    watertight: true,
+    boundaryEdges: 0,
+    holes: 0,
+    nonManifoldEdges: 0,
+    inconsistentEdges: 0,
+    degenerateTriangles: 0,
+    flippedNormals: 0,
+    inverted: false,
+  };
+  const defects: MeshDefects = {
+    boundaryEdges: [],
+    nonManifoldEdges: [],
+    inconsistentEdges: [],
+    degenerateTriangles: [],
+    flippedFaces: [],
+  };
+
+  for (const geometry of geometries) {
+    if (!geometry.getAttribute("position")) continue;
+
+    // A closed shell with a negative volume has its faces turned inside out
+    if (analyzeGeometry(geometry, report, defects) < 0) report.inverted = true;
+  }
+
+  return { report, defects };
+}
+
+export interface HealthLayer {
+  group: Group;
+  update: (defects?: MeshDefects) => void;
+}
+
+/**
+ * Creates a layer that highlights mesh defects
+ *
+ * Open boundaries are drawn red, non-manifold edges magenta, inconsistently
+ * wound edges yellow, flipped faces orange and degenerate triangles as
+ * cyan points. Everything is drawn on top of the model so hidden defects
+ * stay visible.
+ */
+export function createHealthLayer(parent: Object3D): HealthLayer {
+  const group = new Group();
+  group.name = "mesh-health";
+  parent.add(group);
+
+  const edgeMaterials = {
+    boundaryEdges: new LineBasicMaterial({ color: 0xff2020, depthTest: false }),
+    nonManifoldEdges: new LineBasicMaterial({
+      color: 0xff00ff,
+      depthTest: false,
+    }),
+    inconsistentEdges: new LineBasicMaterial({
+      color: 0xffee00,
+      depthTest: false,
+    }),
+  };
+  const faceMaterial = new MeshBasicMaterial({
+    color: 0xff8800,
+    side: DoubleSide,
+    transparent: true,
+    opacity: 0.6,
+    depthTest: false,
+  });
+  const pointMaterial = new PointsMaterial({
+    color: 0x00e5ff,
+    size: 6,
+    sizeAttenuation: false,
+    depthTest: false,
+  });
+
+  function createGeometry(positions: number[]) {
+    const geometry = new BufferGeometry();
+    geometry.setAttribute(
+      "position",
+      new BufferAttribute(new Float32Array(positions), 3),
+    );
+    return geometry;
+  }
+
+  function clear() {
+    for (const child of [...group.children]) {
+      if (
+        child instanceof LineSegments ||
+        child instanceof Mesh ||
+        child instanceof Points
+      ) {
+        child.geometry.dispose();
+      }
+      group.remove(child);
+    }
+  }
+
+  function update(defects?: MeshDefects) {
+    clear();
+    if (!defects) return;
+
+    for (const key of [
+      "boundaryEdges",
+      "nonManifoldEdges",
+      "inconsistentEdges",
+    ] as const) {
+      if (defects[key].length === 0) continue;
+      const lines = new LineSegments(
+        createGeometry(defects[key]),
+        edgeMaterials[key],
+      );
+      lines.renderOrder = 997;
+      group.add(lines);
+    }
+
+    if (defects.flippedFaces.length > 0) {
+      const faces = new Mesh(
+        createGeometry(defects.flippedFaces),
+        faceMaterial,
+      );
+      faces.renderOrder = 996;
+      group.add(faces);
+    }
+
+    if (defects.degenerateTriangles.length > 0) {
+      const points = new Points(
+        createGeometry(defects.degenerateTriangles),
+        pointMaterial,
+      );
+      points.renderOrder = 997;
+      group.add(points);
+    }
+  }
+
+  return { group, update };
+}
@@ -0,0 +1,138 @@
+/**
+ * Mesh Statistics
+ *
+ * Computes the real-world size and geometry statistics of a loaded model
+ */
+
+import { Box3, type BufferGeometry, Vector3 } from "three";
+import {
+  countUniqueVertices,
+  getTriangleCount,
+  getTriangleIndices,
+} from "./geometry";
+
+export interface ModelStats {
+  /** Bounding box size along X/Y/Z in the model's original units */
+  size: { x: number; y: number; z: number };
+  triangles: number;
+  /** Number of unique vertices */
+  vertices: number;
+  /** Enclosed volume in cubic units (only meaningful for closed meshes) */
+  volume: number;
+  /** Total surface area in square units */
+  surfaceArea: number;
+  /** Size of the source file in bytes */
+  fileSize: number;
+}
+
+/**
+ * Computes statistics for the geometries of a model in their original,
+ * unscaled units
+ */
+export function computeModelStats(
+  geometries: BufferGeometry[],
+  fileSize: number,
+): ModelStats {
+  const bounds = new Box3();
+  let triangles = 0;
+  let vertices = 0;
+  let volume = 0;
+  let surfaceArea = 0;
+
+  for (const geometry of geometries) {
+    if (!geometry.boundingBox) geometry.computeBoundingBox();
+    bounds.union(geometry.boundingBox!);
+
+    const stats = measureGeometry(geometry);
+    triangles += stats.triangles;
+    vertices += stats.vertices;
+    volume += stats.volume;
+    surfaceArea += stats.surfaceArea;
+  }
+
+  const size = bounds.isEmpty() ? new Vector3() : bounds.getSize(new Vector3());
+
+  return {
+    size: { x: size.x, y: size.y, z: size.z },
+    triangles,
+    vertices,
+    volume: Math.abs(volume),
+    surfaceArea,
+    fileSize,
+  };
+}
+
+/**
+ * Adds up the statistics of several files loaded together. The size is taken
+ * from the combined bounds of their geometries.
+ */
+export function combineModelStats(
+  stats: ModelStats[],
+  geometries: BufferGeometry[],
+): ModelStats {
+  const bounds = new Box3();
+  for (const geometry of geometries) {
+    if (!geometry.boundingBox) geometry.computeBoundingBox();
+    bounds.union(geometry.boundingBox!);
+  }
+  const size = bounds.isEmpty() ? new Vector3() : bounds.getSize(new Vector3());
+
+  return {
+    size: { x: size.x, y: size.y, z: size.z },
+    triangles: sum(stats, (s) => s.triangles),
+    vertices: sum(stats, (s) => s.vertices),
+    volume: sum(stats, (s) => s.volume),
+    surfaceArea: sum(stats, (s) => s.surfaceArea),
+    fileSize: sum(stats, (s) => s.fileSize),
+  };
+}
+
+function sum(stats: ModelStats[], value: (stats: ModelStats) => number) {
+  return stats.reduce((total, s) => total + value(s), 0);
+}
+
+function measureGeometry(geometry: BufferGeometry) {
+  const position = geometry.getAttribute("position");
+  const indices = getTriangleIndices(geometry);
+  const triangles = getTriangleCount(geometry);
+
+  const a = new Vector3();
+  const b = new Vector3();
+  const c = new Vector3();
+  const ab = new Vector3();
+  const ac = new Vector3();
+
+  let volume = 0;
+  let surfaceArea = 0;
+
+  for (let t = 0; t < triangles; t++) {
+    a.fromBufferAttribute(position, indices[t * 3]);
+    b.fromBufferAttribute(position, indices[t * 3 + 1]);
+    c.fromBufferAttribute(position, indices[t * 3 + 2]);
+
+    // Signed volume of the tetrahedron formed with the origin
+    volume += a.dot(ab.crossVectors(b, c)) / 6;
+
+    ab.subVectors(b, a);
+    ac.subVectors(c, a);
+    surfaceArea += ab.cross(ac).length() / 2;
+  }
+
+  return {
+    triangles,
+    vertices: countUniqueVertices(geometry),
+    volume,
+    surfaceArea,
+  };
+}
+
+/**
+ * Formats a byte count as a human readable string
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024)
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
@@ -0,0 +1,178 @@
+/**
+ * Overhang Analysis
+ *
+ * Finds the faces of a model that hang out past a given angle from the
+ * build direction (+Z) and would need support when 3D printed. Also
+ * provides the heatmap material used by the "overhang" render mode.
+ */
+
+import {
+  type BufferGeometry,
+  MathUtils,
+  MeshPhongMaterial,
+  Vector3,
+} from "three";
+import { getTriangleIndices } from "./geometry";
+
+/** Default overhang angle in degrees, measured from vertical */
+export const DEFAULT_OVERHANG_ANGLE = 45;
+
+export interface OverhangReport {
+  /** Angle in degrees from vertical past which a face counts as overhanging */
+  angle: number;
+  /** Number of overhanging faces */
+  faces: number;
+  /** Total area of the overhanging faces in model units squared */
+  area: number;
+  /** Total number of faces checked */
+  totalFaces: number;
+  /** Total surface area of the model in model units squared */
+  totalArea: number;
+}
+
+export interface OverhangMaterial {
+  material: MeshPhongMaterial;
+  /** Sets the overhang angle in degrees from vertical */
+  setAngle(angle: number): void;
+  /** Sets the height at or below which faces rest on the build plate */
+  setFloor(z: number): void;
+}
+
+/**
+ * Clamps an overhang angle to the 0-90 degree range
+ */
+export function clampOverhangAngle(angle: number): number {
+  if (!Number.isFinite(angle)) return DEFAULT_OVERHANG_ANGLE;
+  return MathUtils.clamp(angle, 0, 90);
+}
+
+/**
+ * Counts the faces past the overhang angle and their area
+ *
+ * Faces lying at or below `floor` rest on the build plate and are ignored.
+ */
+export function analyzeOverhangs(
+  geometries: BufferGeometry[],
+  angle: number,
+  floor: number,
+): OverhangReport {
+  const limit = Math.sin(MathUtils.degToRad(clampOverhangAngle(angle)));
+  const report: OverhangReport = {
+    angle: clampOverhangAngle(angle),
+    faces: 0,
+    area: 0,
+    totalFaces: 0,
+    totalArea: 0,
+  };
+
+  const a = new Vector3();
+  const b = new Vector3();
+  const c = new Vector3();
+  const normal = new Vector3();
+
+  for (const geometry of geometries) {
+    const position = geometry.getAttribute("position");
+    if (!position) continue;
+    const corners = getTriangleIndices(geometry);
+
+    for (let i = 0; i + 2 < corners.length; i += 3) {
+      a.fromBufferAttribute(position, corners[i]);
+      b.fromBufferAttribute(position, corners[i + 1]);
+      c.fromBufferAttribute(position, corners[i + 2]);
+      const onFloor = Math.max(a.z, b.z, c.z) <= floor;
+
+      normal.crossVectors(b.sub(a), c.sub(a));
+      const area = normal.length() / 2;
+      report.totalFaces++;
+      report.totalArea += area;
+      if (area === 0) continue;
+
+      // The vertical component of the normal is the sine of the face's
+      // angle from vertical, negative when it faces down
+      const down = -normal.z / (area * 2);
+      if (down > limit && !onFloor) {
+        report.faces++;
+        report.area += area;
+      }
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Creates the heatmap material for the "overhang" render mode
+ *
+ * Faces are coloured from green (facing up) to yellow (at the overhang
+ * angle), then orange to red past it. The face normal is derived from the
+ * model space position in the fragment shader, so it works for any mesh
+ * without extra attributes and matches the flat shaded faces.
+ */
+export function createOverhangMaterial(): OverhangMaterial {
+  const uniforms = {
+    overhangAngle: { value: MathUtils.degToRad(DEFAULT_OVERHANG_ANGLE) },
+    overhangFloor: { value: -1e9 },
+  };
+
+  const material = new MeshPhongMaterial({
+    color: 0xffffff,
+    specular: 0x111111,
+    shininess: 20,
+    flatShading: true,
+  });
+
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms);
+
+    shader.vertexShader = shader.vertexShader
+      .replace(
+        "#include <common>",
+        "#include <common>\nvarying vec3 vModelPosition;",
+      )
+      .replace(
+        "#include <begin_vertex>",
+        "#include <begin_vertex>\nvModelPosition = transformed;",
+      );
+
+    shader.fragmentShader = shader.fragmentShader
+      .replace(
+        "#include <common>",
+        [
+          "#include <common>",
+          "varying vec3 vModelPosition;",
+          "uniform float overhangAngle;",
+          "uniform float overhangFloor;",
+        ].join("\n"),
+      )
+      .replace(
+        "#include <color_fragment>",
+        `#include <color_fragment>
+        vec3 faceNormal = normalize(cross(dFdx(vModelPosition), dFdy(vModelPosition)));
+        float faceAngle = asin(clamp(-faceNormal.z, -1.0, 1.0));
+        vec3 heat;
+        if (vModelPosition.z <= overhangFloor) {
+          heat = vec3(0.55, 0.6, 0.65);
+        } else if (faceAngle > overhangAngle) {
+          float t = (faceAngle - overhangAngle) / max(HALF_PI - overhangAngle, 1e-3);
+          heat = mix(vec3(1.0, 0.55, 0.1), vec3(0.85, 0.1, 0.1), t);
+        } else {
+          float t = max(faceAngle, 0.0) / max(overhangAngle, 1e-3);
+          heat = mix(vec3(0.3, 0.75, 0.35), vec3(0.95, 0.85, 0.2), t);
+        }
+        diffuseColor.rgb *= heat;`,
+      );
+  };
+  material.customProgramCacheKey = () => "overhang";
+
+  return {
+    material,
+    setAngle(angle: number) {
+      uniforms.overhangAngle.value = MathUtils.degToRad(
+        clampOverhangAngle(angle),
+      );
+    },
+    setFloor(z: number) {
+      uniforms.overhangFloor.value = z;
+    },
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Printer Profiles
+ *
+ * Build volumes of common 3D printers and helpers to check whether a model
+ * fits on one
+ */
+
+export interface PrinterSize {
+  /** Bed width in mm */
+  x: number;
+  /** Bed depth in mm */
+  y: number;
+  /** Maximum print height in mm */
+  z: number;
+}
+
+export interface PrinterProfile extends PrinterSize {
+  name: string;
+}
+
+export interface PrinterFit {
+  /** True when the model fits in the build volume as it is placed */
+  fits: boolean;
+  /** True when the model only fits after turning it 90° on the bed */
+  fitsRotated: boolean;
+}
+
+/** Build volumes of common printers, keyed by the value of the printer attribute */
+export const PRINTER_PRESETS: Record<string, PrinterProfile> = {
+  "prusa-mk4": { name: "Prusa MK4", x: 250, y: 210, z: 220 },
+  "prusa-mini": { name: "Prusa MINI+", x: 180, y: 180, z: 180 },
+  "prusa-xl": { name: "Prusa XL", x: 360, y: 360, z: 360 },
+  "bambu-x1": { name: "Bambu Lab X1 / P1 / A1", x: 256, y: 256, z: 256 },
+  "bambu-a1-mini": { name: "Bambu Lab A1 mini", x: 180, y: 180, z: 180 },
+  "ender-3": { name: "Creality Ender-3", x: 220, y: 220, z: 250 },
+  "creality-k1": { name: "Creality K1", x: 220, y: 220, z: 250 },
+  "neptune-4": { name: "Elegoo Neptune 4", x: 225, y: 225, z: 265 },
+  "voron-350": { name: "Voron 2.4 350", x: 350, y: 350, z: 340 },
+};
+
+/**
+ * Formats a build volume as a printer attribute value, like "250x210x220"
+ */
+export function formatPrinterSize(size: PrinterSize): string {
+  return `${size.x}x${size.y}x${size.z}`;
+}
+
+/**
+ * Parses a printer attribute value
+ *
+ * Accepts a preset id ("prusa-mk4") or a custom build volume in mm
+ * ("250x210x220"). Returns undefined for empty or invalid values.
+ */
+export function parsePrinter(value: string): PrinterProfile | undefined {
+  const preset = PRINTER_PRESETS[value.trim().toLowerCase()];
+  if (preset) return preset;
+
+  const parts = value.split(/[x×,]/i).map((v) => Number(v.trim()));
+  if (parts.length !== 3 || parts.some((v) => !(v > 0))) return undefined;
+
+  const [x, y, z] = parts;
+  return { name: `${x} × ${y} × ${z} mm`, x, y, z };
+}
+
+/**
+ * Checks whether a model of the given size fits in a build volume
+ */
+export function checkPrinterFit(
+  size: PrinterSize,
+  printer: PrinterSize,
+): PrinterFit {
+  const fitsHeight = size.z <= printer.z;
+  const fits = fitsHeight && size.x <= printer.x && size.y <= printer.y;
+
+  return {
+    fits,
+    fitsRotated:
+      !fits && fitsHeight && size.y <= printer.x && size.x <= printer.y,
+  };
+}
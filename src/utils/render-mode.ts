@@ -0,0 +1,96 @@
+/**
+ * Render Modes
+ *
+ * Material settings for the different ways a model can be displayed
+ */
+
+import {
+  DoubleSide,
+  EdgesGeometry,
+  FrontSide,
+  LineBasicMaterial,
+  LineSegments,
+  type Mesh,
+  type MeshPhongMaterial,
+} from "three";
+
+export type RenderMode =
+  | "solid"
+  | "wireframe"
+  | "xray"
+  | "normals"
+  | "edges"
+  | "overhang";
+
+export const RENDER_MODES: RenderMode[] = [
+  "solid",
+  "wireframe",
+  "xray",
+  "normals",
+  "edges",
+  "overhang",
+];
+
+/** Faces meeting at more than this angle in degrees get an outline */
+const FEATURE_EDGE_ANGLE = 30;
+
+/**
+ * Returns true when a string is a known render mode
+ */
+export function isRenderMode(value: string): value is RenderMode {
+  return (RENDER_MODES as string[]).includes(value);
+}
+
+/**
+ * Configures a part's Phong material for a render mode
+ */
+export function configurePartMaterial(
+  material: MeshPhongMaterial,
+  mode: RenderMode,
+) {
+  const xray = mode === "xray";
+
+  material.wireframe = mode === "wireframe";
+  material.transparent = xray;
+  material.opacity = xray ? 0.3 : 1;
+  material.depthWrite = !xray;
+  material.side = xray ? DoubleSide : FrontSide;
+  material.needsUpdate = true;
+}
+
+/**
+ * Adds or removes the feature edge outline of a part mesh
+ */
+export function setFeatureEdges(
+  mesh: Mesh,
+  material: LineBasicMaterial | undefined,
+) {
+  const existing = mesh.getObjectByName("feature-edges") as
+    | LineSegments
+    | undefined;
+
+  if (!material) {
+    if (existing) {
+      mesh.remove(existing);
+      existing.geometry.dispose();
+    }
+    return;
+  }
+
+  if (existing) return;
+
+  const edges = new LineSegments(
+    new EdgesGeometry(mesh.geometry, FEATURE_EDGE_ANGLE),
+    material,
+  );
+  edges.name = "feature-edges";
+  edges.raycast = () => {};
+  mesh.add(edges);
+}
+
+/**
+ * Creates the line material used for feature edges
+ */
+export function createFeatureEdgeMaterial(): LineBasicMaterial {
+  return new LineBasicMaterial({ color: 0x000000 });
+}
@@ -0,0 +1,28 @@
+/**
+ * Save File Utility
+ *
+ * Triggers a browser download for generated files
+ */
+
+/**
+ * Downloads a Blob with the given file name
+ */
+export function saveBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Returns a file name without its extension, for naming exports
+ */
+export function getBaseName(name: string): string {
+  const file = name.split(/[?#]/)[0].split("/").pop() || "model";
+  const dot = file.lastIndexOf(".");
+  return dot > 0 ? file.slice(0, dot) : file;
+}
@@ -0,0 +1,175 @@
+/**
+ * Section View Helpers
+ *
+ * Builds the stencil meshes and cap planes used to render a clipped model
+ * with a solid cut face. Each clipped mesh counts its back and front faces
+ * into the stencil buffer, and the cap is only drawn where the count shows
+ * the plane is inside the mesh.
+ */
+
+import {
+  AlwaysStencilFunc,
+  BackSide,
+  Color,
+  DecrementWrapStencilOp,
+  DoubleSide,
+  FrontSide,
+  Group,
+  IncrementWrapStencilOp,
+  type Material,
+  Mesh,
+  MeshBasicMaterial,
+  MeshPhongMaterial,
+  NotEqualStencilFunc,
+  Plane,
+  PlaneGeometry,
+  ReplaceStencilOp,
+  Vector3,
+  type Box3,
+} from "three";
+
+export interface SectionOptions {
+  /** Plane normal in the model's original coordinates */
+  normal: Vector3;
+  /** Position of the plane across the model bounds, from 0 to 1 */
+  position: number;
+  /** Keep the other side of the plane */
+  flip?: boolean;
+}
+
+const AXES: Record<string, [number, number, number]> = {
+  x: [1, 0, 0],
+  y: [0, 1, 0],
+  z: [0, 0, 1],
+};
+
+/**
+ * Parses a section attribute value into a plane normal
+ *
+ * Accepts an axis name ("x", "y", "z") or a comma separated normal like
+ * "1,1,0". Returns undefined for "off" or invalid values.
+ */
+export function parseSectionNormal(value: string): Vector3 | undefined {
+  const axis = AXES[value.trim().toLowerCase()];
+  if (axis) return new Vector3(...axis);
+
+  const parts = value.split(",").map((v) => Number(v.trim()));
+  if (parts.length !== 3 || parts.some((v) => !Number.isFinite(v))) {
+    return undefined;
+  }
+
+  const normal = new Vector3(...(parts as [number, number, number]));
+  return normal.lengthSq() > 0 ? normal.normalize() : undefined;
+}
+
+/**
+ * Creates the clipping plane in model coordinates for a section
+ */
+export function createModelPlane(section: SectionOptions, bounds: Box3): Plane {
+  const normal = section.normal.clone().normalize();
+
+  // Project the box corners onto the normal to find the range to sweep
+  let min = Infinity;
+  let max = -Infinity;
+  const corner = new Vector3();
+  for (let i = 0; i < 8; i++) {
+    corner.set(
+      i & 1 ? bounds.max.x : bounds.min.x,
+      i & 2 ? bounds.max.y : bounds.min.y,
+      i & 4 ? bounds.max.z : bounds.min.z,
+    );
+    const d = corner.dot(normal);
+    min = Math.min(min, d);
+    max = Math.max(max, d);
+  }
+
+  const position = Math.min(1, Math.max(0, section.position));
+  const plane = new Plane(normal, -(min + (max - min) * position));
+  return section.flip ? plane.negate() : plane;
+}
+
+function createStencilMaterial(plane: Plane, back: boolean): Material {
+  const op = back ? IncrementWrapStencilOp : DecrementWrapStencilOp;
+
+  return new MeshBasicMaterial({
+    side: back ? BackSide : FrontSide,
+    clippingPlanes: [plane],
+    depthWrite: false,
+    depthTest: false,
+    colorWrite: false,
+    stencilWrite: true,
+    stencilFunc: AlwaysStencilFunc,
+    stencilFail: op,
+    stencilZFail: op,
+    stencilZPass: op,
+  });
+}
+
+/**
+ * Creates the stencil meshes for a clipped mesh, to be added as its child
+ */
+export function createSectionStencil(
+  mesh: Mesh,
+  plane: Plane,
+  renderOrder: number,
+): Group {
+  const group = new Group();
+  group.name = "section-stencil";
+
+  for (const back of [true, false]) {
+    const stencil = new Mesh(mesh.geometry, createStencilMaterial(plane, back));
+    stencil.renderOrder = renderOrder;
+    stencil.raycast = () => {};
+    group.add(stencil);
+  }
+
+  return group;
+}
+
+/**
+ * Creates a cap that fills the cut face of a clipped mesh
+ */
+export function createSectionCap(color: Color, renderOrder: number): Mesh {
+  const cap = new Mesh(
+    new PlaneGeometry(1, 1),
+    new MeshPhongMaterial({
+      color,
+      side: DoubleSide,
+      stencilWrite: true,
+      stencilRef: 0,
+      stencilFunc: NotEqualStencilFunc,
+      stencilFail: ReplaceStencilOp,
+      stencilZFail: ReplaceStencilOp,
+      stencilZPass: ReplaceStencilOp,
+    }),
+  );
+  cap.name = "section-cap";
+  cap.renderOrder = renderOrder;
+  cap.raycast = () => {};
+
+  // Reset the stencil so the next mesh starts counting from zero
+  cap.onAfterRender = (renderer) => renderer.clearStencil();
+
+  return cap;
+}
+
+/**
+ * Moves a cap onto a world space plane
+ */
+export function placeSectionCap(cap: Mesh, plane: Plane, size: number) {
+  plane.coplanarPoint(cap.position);
+  cap.lookAt(cap.position.clone().sub(plane.normal));
+  cap.scale.setScalar(size);
+}
+
+/**
+ * Disposes the materials of stencil meshes and caps
+ */
+export function disposeSection(object: Mesh | Group) {
+  object.traverse((child) => {
+    if (child instanceof Mesh) (child.material as Material).dispose();
+  });
+  if (object instanceof Mesh && object.name === "section-cap") {
+    object.geometry.dispose();
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * STL Export
+ *
+ * Writes model geometry back out as a binary or ASCII STL file
+ */
+
+import { type BufferGeometry, Vector3 } from "three";
+import { getTriangleCount, getTriangleIndices } from "./geometry";
+
+export type STLFormat = "binary" | "ascii";
+
+export interface STLExportOptions {
+  /** File format (default: "binary") */
+  format?: STLFormat;
+  /** Include the rotations, layout and unit conversion made in the viewer (default: true) */
+  applyTransforms?: boolean;
+  /** Solid name written to ASCII files */
+  name?: string;
+}
+
+const HEADER = "Exported by STL Viewer";
+
+/**
+ * Calls back with the face normal and corners of every triangle
+ */
+function forEachTriangle(
+  geometries: BufferGeometry[],
+  callback: (normal: Vector3, a: Vector3, b: Vector3, c: Vector3) => void,
+) {
+  const a = new Vector3();
+  const b = new Vector3();
+  const c = new Vector3();
+  const normal = new Vector3();
+  const ab = new Vector3();
+
+  for (const geometry of geometries) {
+    const position = geometry.getAttribute("position");
+    const indices = getTriangleIndices(geometry);
+    const count = getTriangleCount(geometry);
+
+    for (let t = 0; t < count; t++) {
+      a.fromBufferAttribute(position, indices[t * 3]);
+      b.fromBufferAttribute(position, indices[t * 3 + 1]);
+      c.fromBufferAttribute(position, indices[t * 3 + 2]);
+      normal.subVectors(c, b).cross(ab.subVectors(a, b)).normalize();
+
+      callback(normal, a, b, c);
+    }
+  }
+}
+
+/**
+ * Writes the triangles of the given geometries to a binary STL
+ */
+export function exportBinarySTL(geometries: BufferGeometry[]): ArrayBuffer {
+  const triangles = geometries.reduce(
+    (sum, geometry) => sum + getTriangleCount(geometry),
+    0,
+  );
+
+  const buffer = new ArrayBuffer(84 + triangles * 50);
+  const view = new DataView(buffer);
+  new Uint8Array(buffer).set(new TextEncoder().encode(HEADER));
+  view.setUint32(80, triangles, true);
+
+  let offset = 84;
+  const writeVector = (v: Vector3) => {
+    view.setFloat32(offset, v.x, true);
+    view.setFloat32(offset + 4, v.y, true);
+    view.setFloat32(offset + 8, v.z, true);
+    offset += 12;
+  };
+
+  forEachTriangle(geometries, (normal, a, b, c) => {
+    writeVector(normal);
+    writeVector(a);
+    writeVector(b);
+    writeVector(c);
+    // Attribute byte count
+    offset += 2;
+  });
+
+  return buffer;
+}
+
+/**
+ * Writes the triangles of the given geometries to an ASCII STL
+ */
+export function exportAsciiSTL(
+  geometries: BufferGeometry[],
+  name = "model",
+): string {
+  // Solid names end at the first whitespace
+  const solid = name.replace(/\s+/g, "_") || "model";
+  const lines = [`solid ${solid}`];
+  const format = (v: Vector3) =>
+    `${v.x.toExponential(6)} ${v.y.toExponential(6)} ${v.z.toExponential(6)}`;
+
+  forEachTriangle(geometries, (normal, a, b, c) => {
+    lines.push(
+      `  facet normal ${format(normal)}`,
+      "    outer loop",
+      `      vertex ${format(a)}`,
+      `      vertex ${format(b)}`,
+      `      vertex ${format(c)}`,
+      "    endloop",
+      "  endfacet",
+    );
+  });
+
+  lines.push(`endsolid ${solid}`, "");
+  return lines.join("\n");
+}
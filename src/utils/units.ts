@@ -0,0 +1,78 @@
+/**
+ * Model Units
+ *
+ * Converts models exported in other units to millimetres, which the viewer
+ * uses internally, and picks lengths for the scale bar
+ */
+
+import type { ModelStats } from "./mesh-stats";
+
+export type ModelUnits = "mm" | "cm" | "inch";
+
+/** Millimetres per unit */
+export const UNIT_SCALE: Record<ModelUnits, number> = {
+  mm: 1,
+  cm: 10,
+  inch: 25.4,
+};
+
+/** Short labels for lengths in each unit */
+export const UNIT_LABELS: Record<ModelUnits, string> = {
+  mm: "mm",
+  cm: "cm",
+  inch: "in",
+};
+
+/**
+ * Parses a units attribute value, falling back to millimetres for unknown
+ * values
+ */
+export function parseUnits(units: string): ModelUnits {
+  const key = units.trim().toLowerCase();
+  const parsed = key === "in" ? "inch" : key;
+  return Object.hasOwn(UNIT_SCALE, parsed) ? (parsed as ModelUnits) : "mm";
+}
+
+/**
+ * Returns the millimetres per unit of a units attribute value, falling back
+ * to millimetres for unknown values
+ */
+export function getUnitScale(units: string): number {
+  return UNIT_SCALE[parseUnits(units)];
+}
+
+/**
+ * Scales model statistics by a length factor
+ */
+export function scaleStats(stats: ModelStats, factor: number): ModelStats {
+  return {
+    ...stats,
+    size: {
+      x: stats.size.x * factor,
+      y: stats.size.y * factor,
+      z: stats.size.z * factor,
+    },
+    volume: stats.volume * factor ** 3,
+    surfaceArea: stats.surfaceArea * factor ** 2,
+  };
+}
+
+/**
+ * Returns the largest 1, 2 or 5 times a power of ten millimetres that fits
+ * within the given number of pixels
+ */
+export function getScaleBarLength(pixelsPerMm: number, maxPixels: number) {
+  const max = maxPixels / pixelsPerMm;
+  const power = 10 ** Math.floor(Math.log10(max));
+  const step = [5, 2, 1].find((s) => s * power <= max) ?? 1;
+  return step * power;
+}
+
+/**
+ * Formats a length in millimetres for the scale bar
+ */
+export function formatLength(mm: number): string {
+  if (mm >= 1000) return `${mm / 1000} m`;
+  if (mm >= 10) return `${mm / 10} cm`;
+  return `${Number(mm.toPrecision(3))} mm`;
+}
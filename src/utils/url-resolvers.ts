@@ -0,0 +1,160 @@
+/**
+ * URL Resolvers
+ *
+ * Rewrites links to the web page of a file, like a GitHub "blob" page or a
+ * Dropbox share link, to the URL of the raw file so the model can be
+ * fetched. Resolvers for other hosts can be registered at runtime.
+ */
+
+export interface UrlResolver {
+  /** Unique name, used to replace or unregister the resolver */
+  name: string;
+  /**
+   * Returns the URL of the raw file, or undefined when the resolver doesn't
+   * handle the URL
+   */
+  resolve(
+    url: URL,
+  ): string | URL | undefined | Promise<string | URL | undefined>;
+}
+
+/**
+ * Creates a resolver that rewrites the path of matching URLs, keeping the
+ * host and query
+ */
+function pathResolver(
+  name: string,
+  host: RegExp,
+  path: RegExp,
+  replacement: string,
+): UrlResolver {
+  return {
+    name,
+    resolve(url) {
+      if (!host.test(url.hostname) || !path.test(url.pathname)) return;
+
+      const raw = new URL(url);
+      raw.pathname = url.pathname.replace(path, replacement);
+      return raw;
+    },
+  };
+}
+
+// github.com/<owner>/<repo>/blob/<ref>/<path>, or /raw/ which redirects
+const githubResolver: UrlResolver = {
+  name: "GitHub",
+  resolve(url) {
+    if (url.hostname !== "github.com" && url.hostname !== "www.github.com") {
+      return;
+    }
+
+    const match = url.pathname.match(
+      /^\/([^/]+)\/([^/]+)\/(?:blob|raw)\/(.+)$/,
+    );
+    if (!match) return;
+    const [, owner, repo, path] = match;
+    return `https://raw.githubusercontent.com/${owner}/${repo}/${path}`;
+  },
+};
+
+// Share links show a preview page unless dl=1 is set
+const dropboxResolver: UrlResolver = {
+  name: "Dropbox",
+  resolve(url) {
+    if (!/(^|\.)dropbox\.com$/.test(url.hostname)) return;
+    if (url.searchParams.get("dl") === "1" || url.searchParams.has("raw")) {
+      return;
+    }
+
+    const raw = new URL(url);
+    raw.searchParams.set("dl", "1");
+    return raw;
+  },
+};
+
+// drive.google.com/file/d/<id>/view or drive.google.com/open?id=<id>
+const googleDriveResolver: UrlResolver = {
+  name: "Google Drive",
+  resolve(url) {
+    if (url.hostname !== "drive.google.com") return;
+
+    const id =
+      url.pathname.match(/^\/file\/d\/([^/]+)/)?.[1] ??
+      (url.pathname === "/open" ? url.searchParams.get("id") : null);
+    if (!id) return;
+    return `https://drive.google.com/uc?export=download&id=${encodeURIComponent(id)}`;
+  },
+};
+
+// Resolvers are tried in order, registered resolvers are added to the front
+const resolvers: UrlResolver[] = [
+  githubResolver,
+  // <project>/-/blob/<ref>/<path> on gitlab.com and well known GitLab hosts
+  pathResolver(
+    "GitLab",
+    /^(gitlab\.com|gitlab\.gnome\.org|gitlab\.freedesktop\.org|salsa\.debian\.org|invent\.kde\.org|framagit\.org)$/,
+    /\/-\/blob\//,
+    "/-/raw/",
+  ),
+  // bitbucket.org/<owner>/<repo>/src/<ref>/<path>
+  pathResolver(
+    "Bitbucket",
+    /^bitbucket\.org$/,
+    /^(\/[^/]+\/[^/]+)\/src\//,
+    "$1/raw/",
+  ),
+  // <owner>/<repo>/src/branch/<ref>/<path> on Codeberg and gitea.com
+  pathResolver(
+    "Gitea",
+    /^(codeberg\.org|gitea\.com)$/,
+    /^(\/[^/]+\/[^/]+)\/src\/(branch|tag|commit)\//,
+    "$1/raw/$2/",
+  ),
+  // huggingface.co/<repo>/blob/<ref>/<path>
+  pathResolver("Hugging Face", /^huggingface\.co$/, /\/blob\//, "/resolve/"),
+  dropboxResolver,
+  googleDriveResolver,
+];
+
+/**
+ * Registers a URL resolver, taking precedence over the built-in resolvers
+ */
+export function registerUrlResolver(resolver: UrlResolver): void {
+  unregisterUrlResolver(resolver.name);
+  resolvers.unshift(resolver);
+}
+
+/**
+ * Removes a URL resolver by name
+ */
+export function unregisterUrlResolver(name: string): void {
+  const index = resolvers.findIndex((r) => r.name === name);
+  if (index !== -1) resolvers.splice(index, 1);
+}
+
+/**
+ * Returns the registered URL resolvers in the order they are tried
+ */
+export function getUrlResolvers(): UrlResolver[] {
+  return [...resolvers];
+}
+
+/**
+ * Returns the raw file URL for a model URL, using the first resolver that
+ * handles it, or the URL unchanged when none does
+ */
+export async function resolveModelUrl(url: string): Promise<string> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, document.baseURI);
+  } catch {
+    return url;
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") return url;
+
+  for (const resolver of resolvers) {
+    const resolved = await resolver.resolve(new URL(parsed));
+    if (resolved) return resolved.toString();
+  }
+  return url;
+}
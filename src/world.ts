@@ -0,0 +1,909 @@
+/**
+ * STL World
+ *
+ * Creates the three.js scene, camera, lights and controls used by the
+ * <stl-viewer> component and manages the meshes of the loaded model.
+ */
+
+import {
+  AmbientLight,
+  Box3,
+  Box3Helper,
+  Color,
+  DirectionalLight,
+  Fog,
+  GridHelper,
+  Group,
+  HemisphereLight,
+  MathUtils,
+  Matrix4,
+  type Intersection,
+  type Material,
+  Mesh,
+  MeshNormalMaterial,
+  MeshPhongMaterial,
+  PerspectiveCamera,
+  Plane,
+  PlaneGeometry,
+  Quaternion,
+  Raycaster,
+  Scene,
+  Sphere,
+  Vector2,
+  Vector3,
+  WebGLRenderer,
+} from "three";
+import { OrbitControls } from "three-stdlib";
+import { type ModelPart, UNCOLORED_ATTRIBUTE } from "./loaders";
+import { createMeasurementLayer, type MeasurementLayer } from "./utils/measure";
+import { createHealthLayer, type HealthLayer } from "./utils/mesh-health";
+import {
+  createModelPlane,
+  createSectionCap,
+  createSectionStencil,
+  disposeSection,
+  placeSectionCap,
+  type SectionOptions,
+} from "./utils/section";
+import {
+  createBuildVolumeLayer,
+  type BuildVolumeLayer,
+} from "./utils/build-volume";
+import {
+  checkPrinterFit,
+  type PrinterFit,
+  type PrinterSize,
+} from "./utils/printers";
+import {
+  configurePartMaterial,
+  createFeatureEdgeMaterial,
+  type RenderMode,
+  setFeatureEdges,
+} from "./utils/render-mode";
+import {
+  DEFAULT_BACKGROUND,
+  DEFAULT_FOG,
+  DEFAULT_MODEL_COLOR,
+  type Appearance,
+  type FogRange,
+} from "./utils/appearance";
+import {
+  analyzeOverhangs,
+  createOverhangMaterial,
+  DEFAULT_OVERHANG_ANGLE,
+  type OverhangReport,
+} from "./utils/overhang";
+
+export type CameraView =
+  | "front"
+  | "back"
+  | "left"
+  | "right"
+  | "top"
+  | "bottom"
+  | "iso";
+
+export interface CameraState {
+  position: [number, number, number];
+  target: [number, number, number];
+  zoom: number;
+}
+
+export interface PartInfo {
+  name: string;
+  visible: boolean;
+  /** Hex color of the part, undefined when it uses per-vertex colors */
+  color?: string;
+  selected: boolean;
+}
+
+// View directions in the scene, where the Z-up model is rotated to Y-up
+const VIEW_DIRECTIONS: Record<CameraView, [number, number, number]> = {
+  front: [0, 0, 1],
+  back: [0, 0, -1],
+  left: [-1, 0, 0],
+  right: [1, 0, 0],
+  top: [0, 1, 0],
+  bottom: [0, -1, 0],
+  iso: [1, 1, 1],
+};
+
+// Direction of the initial camera position
+const DEFAULT_VIEW = new Vector3(-2, 2, -2.5);
+
+// Scene units per millimetre in true-scale mode, so 100 mm spans 2 units
+const TRUE_SCALE = 0.02;
+// Grid cell size in millimetres in true-scale mode
+const TRUE_SCALE_GRID = 10;
+
+export interface STLWorld {
+  renderer: WebGLRenderer;
+  scene: Scene;
+  camera: PerspectiveCamera;
+  /** Group holding the model parts, scaled and centered above the floor */
+  model: Group;
+  /** One mesh per model part */
+  parts: Mesh[];
+  grid: GridHelper;
+  floor: Mesh;
+  dirLight: DirectionalLight;
+  ambientLight: AmbientLight;
+  hemiLight: HemisphereLight;
+  controls: OrbitControls;
+  measurementLayer: MeasurementLayer;
+  healthLayer: HealthLayer;
+  buildVolumeLayer: BuildVolumeLayer;
+  animate: () => void;
+  resize: () => void;
+  setModel: (parts: ModelPart[]) => void;
+  /** Cuts the model with a capped clipping plane, or removes the cut */
+  setSection: (section?: SectionOptions) => void;
+  setRenderMode: (mode: RenderMode) => void;
+  /** Sets the model color, background, fog and floor and grid visibility */
+  setAppearance: (appearance: Appearance) => void;
+  /** Draws every part in the model color, ignoring the colors from the files */
+  setUniformColor: (enabled: boolean) => void;
+  /** Sets the angle from vertical past which faces are drawn as overhangs */
+  setOverhangAngle: (angle: number) => void;
+  /** Counts the faces of the model past the overhang angle */
+  getOverhangs: () => OverhangReport;
+  /** Shows a printer's bed and build volume under the model, or hides it */
+  setPrinter: (printer?: PrinterSize) => void;
+  /** Returns whether the model fits the printer, if one is set */
+  getPrinterFit: () => PrinterFit | undefined;
+  /** Moves the camera back to its initial position around the model */
+  resetCamera: () => void;
+  /** Looks at the model from one side */
+  setView: (view: CameraView) => void;
+  getCameraState: () => CameraState;
+  setCameraState: (state: CameraState) => void;
+  /** Returns the bounding box of the model in its original coordinates */
+  getBoundingBox: () => Box3;
+  /** Returns the bounding sphere of the model in its original coordinates */
+  getBoundingSphere: () => Sphere;
+  getParts: () => PartInfo[];
+  /** Shows or hides a part */
+  setPartVisible: (index: number, visible: boolean) => void;
+  /** Overrides the color of a part, or restores its own color */
+  setPartColor: (index: number, color?: Color) => void;
+  /** Outlines the bounds of a part, or clears the selection */
+  setSelectedPart: (index?: number) => void;
+  /** Lays the parts out side by side on the floor */
+  arrange: (spacing?: number) => void;
+  /** Scales the geometry of every part, e.g. to convert units */
+  scaleParts: (factor: number) => void;
+  /** Rotates the whole model around its center, in model coordinates */
+  rotateParts: (rotation: Quaternion) => void;
+  /** Rotates the model so a face with the given normal rests on the floor */
+  layFlat: (normal: Vector3) => void;
+  /** Undoes every rotation since the model was loaded */
+  resetOrientation: () => void;
+  /** Returns the moves, scales and rotations applied to a part since it was loaded */
+  getPartTransform: (index: number) => Matrix4;
+  /** Draws the model at a fixed scale with a 10 mm grid instead of fitting it to the view */
+  setTrueScale: (enabled: boolean) => void;
+  /** Returns how many canvas pixels one model unit spans at the orbit target */
+  getPixelsPerUnit: () => number;
+  /** Casts a ray from normalized device coordinates into the visible parts */
+  pick: (x: number, y: number) => Intersection | undefined;
+  /** Projects a point in model coordinates to canvas pixel coordinates */
+  projectToCanvas: (point: Vector3) => { x: number; y: number } | undefined;
+}
+
+export function createSTLWorld(canvas: HTMLCanvasElement): STLWorld {
+  const renderer = new WebGLRenderer({
+    canvas,
+    antialias: true,
+    preserveDrawingBuffer: true,
+    alpha: true,
+    // The section caps are masked with the stencil buffer
+    stencil: true,
+  });
+  renderer.shadowMap.enabled = true;
+  renderer.localClippingEnabled = true;
+
+  const scene = new Scene();
+  scene.background = new Color(DEFAULT_BACKGROUND);
+  // Fog distances are multiples of the model's radius, which starts out at 2
+  const fog = new Fog(
+    DEFAULT_BACKGROUND,
+    DEFAULT_FOG.near * 2,
+    DEFAULT_FOG.far * 2,
+  );
+  scene.fog = fog;
+  let fogRange: FogRange | undefined = DEFAULT_FOG;
+  let showGrid = true;
+
+  const camera = new PerspectiveCamera(
+    75,
+    canvas.width / canvas.height,
+    0.1,
+    1000,
+  );
+  camera.position.set(-2, 2, -2.5);
+  scene.add(camera);
+
+  const hemiLight = new HemisphereLight(0xffffff, 0x444444, 3);
+  hemiLight.position.set(0, 20, 0);
+  scene.add(hemiLight);
+
+  const ambientLight = new AmbientLight(0xffffff, 0.5);
+  scene.add(ambientLight);
+
+  const dirLight = new DirectionalLight(0xffffff);
+  dirLight.position.set(-5, 15, 10);
+  dirLight.castShadow = true;
+  scene.add(dirLight);
+
+  const floor = new Mesh(
+    new PlaneGeometry(40, 40),
+    new MeshPhongMaterial({ color: 0xbbbbbb, depthWrite: false }),
+  );
+  floor.rotation.set(-Math.PI / 2, 0, 0);
+  floor.receiveShadow = true;
+  scene.add(floor);
+
+  const grid = new GridHelper(40, 40, 0x000000, 0x000000);
+  grid.material.transparent = true;
+  grid.material.opacity = 0.2;
+  scene.add(grid);
+
+  const material = new MeshPhongMaterial({
+    color: DEFAULT_MODEL_COLOR,
+    shininess: 60,
+    flatShading: true,
+  });
+
+  const model = new Group();
+  scene.add(model);
+
+  const parts: Mesh[] = [];
+  // The loaded parts, used to restore their own colors
+  let modelParts: ModelPart[] = [];
+  // The Phong material of each part, swapped out in "normals" and "overhang" modes
+  const partMaterials = new Map<Mesh, MeshPhongMaterial>();
+  // Colors picked for parts, which take precedence over the model color
+  const partColors = new Map<Mesh, Color>();
+  let uniformColor = false;
+  const normalMaterial = new MeshNormalMaterial({ flatShading: true });
+  const overhangMaterial = createOverhangMaterial();
+  let overhangAngle = DEFAULT_OVERHANG_ANGLE;
+  const edgeMaterial = createFeatureEdgeMaterial();
+  let renderMode: RenderMode = "solid";
+
+  const boundingBox = new Box3();
+  const boundingSphere = new Sphere();
+
+  // Section plane in model coordinates and its world space copy used by the materials
+  let section: SectionOptions | undefined;
+  let modelPlane: Plane | undefined;
+  const clipPlane = new Plane();
+  const sectionCaps = new Group();
+  sectionCaps.name = "section-caps";
+  scene.add(sectionCaps);
+
+  const selection = new Box3Helper(new Box3(), 0xff9900);
+  selection.visible = false;
+  model.add(selection);
+  let selectedIndex: number | undefined;
+  let trueScale = false;
+  // Rotations applied to each part, including the moves from turning around
+  // the model's center, so they can be undone exactly
+  const partOrientations: Matrix4[] = [];
+  // Every transform baked into each part's geometry since it was loaded
+  const partTransforms: Matrix4[] = [];
+
+  const measurementLayer = createMeasurementLayer(model);
+  const healthLayer = createHealthLayer(model);
+  const buildVolumeLayer = createBuildVolumeLayer(model);
+  let printer: PrinterSize | undefined;
+  let printerFit: PrinterFit | undefined;
+  const raycaster = new Raycaster();
+
+  const controls = new OrbitControls(camera, renderer.domElement);
+  controls.update();
+
+  controls.enableDamping = true;
+  controls.enablePan = true;
+  controls.enableRotate = true;
+  controls.enableZoom = true;
+
+  function applyPartColor(
+    partMaterial: MeshPhongMaterial,
+    part: ModelPart,
+    color?: Color,
+  ) {
+    partMaterial.vertexColors =
+      !color && !uniformColor && !!part.geometry.getAttribute("color");
+    partMaterial.color.copy(
+      color ??
+        (partMaterial.vertexColors ? new Color(0xffffff) : undefined) ??
+        (uniformColor ? undefined : part.color) ??
+        material.color,
+    );
+    partMaterial.needsUpdate = true;
+    if (partMaterial.vertexColors) fillUncoloredVertices(part);
+  }
+
+  // Faces the file left without a color take the part or model color
+  function fillUncoloredVertices(part: ModelPart) {
+    const uncolored = part.geometry.getAttribute(UNCOLORED_ATTRIBUTE);
+    const colors = part.geometry.getAttribute("color");
+    if (!uncolored || !colors) return;
+
+    const fill = part.color ?? material.color;
+    for (let i = 0; i < uncolored.count; i++) {
+      if (uncolored.getX(i)) colors.setXYZ(i, fill.r, fill.g, fill.b);
+    }
+    colors.needsUpdate = true;
+  }
+
+  function updatePartColors() {
+    parts.forEach((mesh, i) =>
+      applyPartColor(
+        partMaterials.get(mesh)!,
+        modelParts[i],
+        partColors.get(mesh),
+      ),
+    );
+    // Rebuild the caps so they pick up the new colors
+    applySection();
+  }
+
+  function createPartMaterial(part: ModelPart) {
+    const partMaterial = material.clone();
+    applyPartColor(partMaterial, part);
+    return partMaterial;
+  }
+
+  function updatePartMaterials() {
+    const clippingPlanes = modelPlane ? [clipPlane] : [];
+
+    for (const mesh of parts) {
+      const partMaterial = partMaterials.get(mesh)!;
+      configurePartMaterial(partMaterial, renderMode);
+      partMaterial.clippingPlanes = clippingPlanes;
+
+      mesh.material =
+        renderMode === "normals"
+          ? normalMaterial
+          : renderMode === "overhang"
+            ? overhangMaterial.material
+            : partMaterial;
+      setFeatureEdges(mesh, renderMode === "edges" ? edgeMaterial : undefined);
+    }
+
+    const sharedMaterials: Material[] = [
+      normalMaterial,
+      overhangMaterial.material,
+      edgeMaterial,
+    ];
+    for (const shared of sharedMaterials) {
+      shared.clippingPlanes = clippingPlanes;
+      shared.needsUpdate = true;
+    }
+  }
+
+  function setRenderMode(mode: RenderMode) {
+    renderMode = mode;
+    updatePartMaterials();
+  }
+
+  function setOverhangAngle(angle: number) {
+    overhangAngle = angle;
+    overhangMaterial.setAngle(angle);
+  }
+
+  // Faces this close to the bottom of the model rest on the build plate
+  function getFloorHeight() {
+    const size = boundingBox.getSize(new Vector3()).length();
+    return boundingBox.min.z + size * 1e-4;
+  }
+
+  function getOverhangs() {
+    return analyzeOverhangs(
+      parts.map((mesh) => mesh.geometry),
+      overhangAngle,
+      getFloorHeight(),
+    );
+  }
+
+  function clearSection() {
+    for (const mesh of parts) {
+      const stencil = mesh.getObjectByName("section-stencil");
+      if (stencil) {
+        mesh.remove(stencil);
+        disposeSection(stencil as Group);
+      }
+    }
+    for (const cap of [...sectionCaps.children] as Mesh[]) {
+      sectionCaps.remove(cap);
+      disposeSection(cap);
+    }
+  }
+
+  function applySection() {
+    clearSection();
+
+    modelPlane =
+      section && parts.length > 0
+        ? createModelPlane(section, boundingBox)
+        : undefined;
+
+    updatePartMaterials();
+
+    parts.forEach((mesh, i) => {
+      const partMaterial = partMaterials.get(mesh)!;
+      if (!modelPlane) return;
+
+      // Each part gets its own stencil pass and cap so caps keep the part color
+      const order = 1 + i * 0.002;
+      mesh.add(createSectionStencil(mesh, clipPlane, order));
+      const cap = createSectionCap(
+        partMaterial.vertexColors ? material.color : partMaterial.color,
+        order + 0.001,
+      );
+      cap.visible = mesh.visible;
+      sectionCaps.add(cap);
+    });
+
+    updateSectionPlane();
+  }
+
+  function updateSectionPlane() {
+    if (!modelPlane) return;
+
+    model.updateMatrixWorld();
+    clipPlane.copy(modelPlane).applyMatrix4(model.matrixWorld);
+
+    const size = boundingSphere.radius * model.scale.x * 4;
+    for (const cap of sectionCaps.children as Mesh[]) {
+      placeSectionCap(cap, clipPlane, size);
+    }
+  }
+
+  function setSection(options?: SectionOptions) {
+    section = options;
+    applySection();
+  }
+
+  function clearParts() {
+    clearSection();
+    for (const mesh of parts) {
+      setFeatureEdges(mesh, undefined);
+      model.remove(mesh);
+      mesh.geometry.dispose();
+      partMaterials.get(mesh)?.dispose();
+    }
+    parts.length = 0;
+    partMaterials.clear();
+    partColors.clear();
+    setSelectedPart();
+  }
+
+  // Scales and centers the model group to fit its parts above the floor
+  function fitModel() {
+    boundingBox.makeEmpty();
+    boundingSphere.makeEmpty();
+
+    for (const mesh of parts) {
+      boundingBox.union(mesh.geometry.boundingBox!);
+      boundingSphere.union(mesh.geometry.boundingSphere!);
+    }
+
+    updateBuildVolume();
+    if (parts.length === 0) return;
+    overhangMaterial.setFloor(getFloorHeight());
+
+    const objectScale = trueScale ? TRUE_SCALE : 2 / boundingSphere.radius;
+    const bb = boundingBox;
+    const center = bb.getCenter(new Vector3()).multiplyScalar(objectScale);
+
+    // update model
+    model.scale.set(objectScale, objectScale, objectScale);
+    model.rotation.set(Math.PI * -0.5, 0, 0);
+    model.position.set(-center.x, -center.z, center.y);
+
+    // update floor
+    grid.position.set(0, ((bb.min.z - bb.max.z) / 2) * objectScale, 0);
+    floor.position.set(0, ((bb.min.z - bb.max.z) / 2) * objectScale, 0);
+    grid.scale.setScalar(trueScale ? TRUE_SCALE_GRID * TRUE_SCALE : 1);
+
+    // Keep clipping and fog proportional to the model, which has a radius
+    // of 2 unless it is drawn at true scale
+    const radius = boundingSphere.radius * objectScale;
+    camera.near = radius * 0.05;
+    camera.far = radius * 500;
+    camera.updateProjectionMatrix();
+    updateFog();
+  }
+
+  function updateFog() {
+    if (!fogRange) return;
+
+    const radius = parts.length > 0 ? boundingSphere.radius * model.scale.x : 2;
+    fog.near = radius * fogRange.near;
+    fog.far = radius * fogRange.far;
+  }
+
+  function setUniformColor(enabled: boolean) {
+    uniformColor = enabled;
+    updatePartColors();
+  }
+
+  function setAppearance(appearance: Appearance) {
+    material.color.copy(appearance.color);
+    updatePartColors();
+
+    // Fog fades to the background, so there is none on a transparent one
+    scene.background = appearance.background ?? null;
+    if (appearance.background) fog.color.copy(appearance.background);
+    fogRange = appearance.fog;
+    scene.fog = fogRange && appearance.background ? fog : null;
+    updateFog();
+
+    floor.visible = appearance.showFloor;
+    showGrid = appearance.showGrid;
+    updateBuildVolume();
+  }
+
+  function setModel(newParts: ModelPart[]) {
+    clearParts();
+    healthLayer.update();
+    modelParts = newParts;
+    partOrientations.length = 0;
+    partTransforms.length = 0;
+
+    for (const part of newParts) {
+      const geometry = part.geometry;
+      if (!geometry.boundingBox) geometry.computeBoundingBox();
+      if (!geometry.boundingSphere) geometry.computeBoundingSphere();
+
+      const partMaterial = createPartMaterial(part);
+      const mesh = new Mesh(geometry, partMaterial);
+      partMaterials.set(mesh, partMaterial);
+      mesh.name = part.name;
+      mesh.castShadow = true;
+      mesh.receiveShadow = true;
+      model.add(mesh);
+      parts.push(mesh);
+      partTransforms.push(new Matrix4());
+      partOrientations.push(new Matrix4());
+    }
+
+    fitModel();
+    applySection();
+
+    // Models of different sizes need a different camera distance at true scale
+    if (trueScale) resetCamera();
+
+    console.log("Model loaded:", model);
+  }
+
+  function getParts(): PartInfo[] {
+    return parts.map((mesh, i) => {
+      const partMaterial = partMaterials.get(mesh)!;
+      return {
+        name: mesh.name,
+        visible: mesh.visible,
+        color: partMaterial.vertexColors
+          ? undefined
+          : `#${partMaterial.color.getHexString()}`,
+        selected: i === selectedIndex,
+      };
+    });
+  }
+
+  function updateBuildVolume() {
+    printerFit =
+      printer && !boundingBox.isEmpty()
+        ? checkPrinterFit(boundingBox.getSize(new Vector3()), printer)
+        : undefined;
+    buildVolumeLayer.update(printer, boundingBox, printerFit?.fits ?? true);
+
+    // The bed grid replaces the generic floor grid
+    grid.visible = showGrid && !buildVolumeLayer.group.visible;
+  }
+
+  function setPrinter(newPrinter?: PrinterSize) {
+    printer = newPrinter;
+    updateBuildVolume();
+  }
+
+  function setPartVisible(index: number, visible: boolean) {
+    const mesh = parts[index];
+    if (!mesh) return;
+
+    mesh.visible = visible;
+    const cap = sectionCaps.children[index];
+    if (cap) cap.visible = visible;
+  }
+
+  function setPartColor(index: number, color?: Color) {
+    const mesh = parts[index];
+    if (!mesh) return;
+
+    if (color) partColors.set(mesh, color.clone());
+    else partColors.delete(mesh);
+    applyPartColor(partMaterials.get(mesh)!, modelParts[index], color);
+    // Rebuild the caps so they pick up the new color
+    applySection();
+  }
+
+  function setSelectedPart(index?: number) {
+    const mesh = index === undefined ? undefined : parts[index];
+    selectedIndex = mesh ? index : undefined;
+    selection.visible = !!mesh;
+    if (mesh) selection.box.copy(mesh.geometry.boundingBox!);
+  }
+
+  function arrange(spacing?: number) {
+    if (parts.length === 0) return;
+
+    const boxes = parts.map((mesh) => mesh.geometry.boundingBox!.clone());
+    const sizes = boxes.map((box) => box.getSize(new Vector3()));
+    const gap =
+      spacing ??
+      Math.max(...sizes.map((size) => Math.max(size.x, size.y))) * 0.1;
+
+    // Fill rows up to roughly the width of a square layout, deepest parts first
+    const area = sizes.reduce(
+      (sum, size) => sum + (size.x + gap) * (size.y + gap),
+      0,
+    );
+    const rowWidth = Math.max(
+      Math.sqrt(area),
+      ...sizes.map((size) => size.x + gap),
+    );
+    const order = parts
+      .map((_, i) => i)
+      .sort((a, b) => sizes[b].y - sizes[a].y);
+
+    const offsets: Vector3[] = [];
+    let x = 0;
+    let y = 0;
+    let rowDepth = 0;
+    for (const i of order) {
+      if (x > 0 && x + sizes[i].x > rowWidth) {
+        x = 0;
+        y += rowDepth + gap;
+        rowDepth = 0;
+      }
+
+      // Move the part's minimum corner to the slot and onto the floor
+      offsets[i] = new Vector3(x, y, 0).sub(boxes[i].min);
+      x += sizes[i].x + gap;
+      rowDepth = Math.max(rowDepth, sizes[i].y);
+    }
+
+    // Center the layout on the origin
+    const layout = new Box3();
+    parts.forEach((_, i) =>
+      layout.union(boxes[i].clone().translate(offsets[i])),
+    );
+    const center = layout.getCenter(new Vector3()).setZ(0);
+
+    parts.forEach((mesh, i) => {
+      const offset = offsets[i].sub(center);
+      const matrix = new Matrix4().makeTranslation(offset);
+      mesh.geometry.applyMatrix4(matrix);
+      partTransforms[i].premultiply(matrix);
+      conjugateOrientation(i, matrix);
+      setFeatureEdges(mesh, undefined);
+    });
+
+    updateTransformedParts();
+  }
+
+  // Refits the view after the part geometry was moved, scaled or rotated
+  function updateTransformedParts() {
+    setSelectedPart(selectedIndex);
+    healthLayer.update();
+    fitModel();
+    applySection();
+    if (trueScale) resetCamera();
+  }
+
+  // Keeps a part's orientation undoable after it was moved or scaled, so
+  // undoing it only removes the rotation and keeps the move or scale
+  function conjugateOrientation(index: number, matrix: Matrix4) {
+    partOrientations[index]
+      .premultiply(matrix)
+      .multiply(matrix.clone().invert());
+  }
+
+  function scaleParts(factor: number) {
+    if (parts.length === 0 || factor === 1) return;
+
+    const matrix = new Matrix4().makeScale(factor, factor, factor);
+    parts.forEach((mesh, i) => {
+      mesh.geometry.applyMatrix4(matrix);
+      partTransforms[i].premultiply(matrix);
+      conjugateOrientation(i, matrix);
+      setFeatureEdges(mesh, undefined);
+    });
+
+    updateTransformedParts();
+  }
+
+  function rotateParts(rotation: Quaternion) {
+    if (parts.length === 0) return;
+
+    const center = boundingBox.getCenter(new Vector3());
+    const matrix = new Matrix4()
+      .makeTranslation(center)
+      .multiply(new Matrix4().makeRotationFromQuaternion(rotation))
+      .multiply(new Matrix4().makeTranslation(center.negate()));
+
+    parts.forEach((mesh, i) => {
+      mesh.geometry.applyMatrix4(matrix);
+      partTransforms[i].premultiply(matrix);
+      partOrientations[i].premultiply(matrix);
+      setFeatureEdges(mesh, undefined);
+    });
+
+    updateTransformedParts();
+  }
+
+  function layFlat(normal: Vector3) {
+    rotateParts(
+      new Quaternion().setFromUnitVectors(
+        normal.clone().normalize(),
+        new Vector3(0, 0, -1),
+      ),
+    );
+  }
+
+  function resetOrientation() {
+    if (parts.length === 0) return;
+
+    parts.forEach((mesh, i) => {
+      const matrix = partOrientations[i].clone().invert();
+      mesh.geometry.applyMatrix4(matrix);
+      partTransforms[i].premultiply(matrix);
+      partOrientations[i].identity();
+      setFeatureEdges(mesh, undefined);
+    });
+
+    updateTransformedParts();
+  }
+
+  function setTrueScale(enabled: boolean) {
+    if (trueScale === enabled) return;
+    trueScale = enabled;
+
+    fitModel();
+    updateSectionPlane();
+    resetCamera();
+  }
+
+  function getPixelsPerUnit() {
+    const distance = camera.position.distanceTo(controls.target);
+    const viewHeight =
+      (2 * distance * Math.tan(MathUtils.degToRad(camera.fov / 2))) /
+      camera.zoom;
+    return (canvas.clientHeight / viewHeight) * model.scale.x;
+  }
+
+  function pick(x: number, y: number) {
+    raycaster.setFromCamera(new Vector2(x, y), camera);
+    return raycaster.intersectObjects(
+      parts.filter((mesh) => mesh.visible),
+      false,
+    )[0];
+  }
+
+  function projectToCanvas(point: Vector3) {
+    const projected = model.localToWorld(point.clone()).project(camera);
+    if (projected.z > 1) return undefined;
+
+    return {
+      x: ((projected.x + 1) / 2) * canvas.clientWidth,
+      y: ((1 - projected.y) / 2) * canvas.clientHeight,
+    };
+  }
+
+  // Distance that fits the whole model in view
+  function getViewDistance() {
+    const radius = parts.length > 0 ? boundingSphere.radius * model.scale.x : 2;
+    return radius * (DEFAULT_VIEW.length() / 2);
+  }
+
+  function lookFrom(direction: Vector3) {
+    camera.position
+      .copy(direction)
+      .normalize()
+      .multiplyScalar(getViewDistance());
+    camera.zoom = 1;
+    camera.updateProjectionMatrix();
+    controls.target.set(0, 0, 0);
+    controls.update();
+  }
+
+  function resetCamera() {
+    lookFrom(DEFAULT_VIEW);
+  }
+
+  function setView(view: CameraView) {
+    const direction = new Vector3(...VIEW_DIRECTIONS[view]);
+    // Nudge straight up and down views so the orbit controls keep their orientation
+    if (view === "top" || view === "bottom") direction.z += 0.0001;
+    lookFrom(direction);
+  }
+
+  function getCameraState(): CameraState {
+    return {
+      position: camera.position.toArray(),
+      target: controls.target.toArray(),
+      zoom: camera.zoom,
+    };
+  }
+
+  function setCameraState(state: CameraState) {
+    camera.position.fromArray(state.position);
+    controls.target.fromArray(state.target);
+    camera.zoom = state.zoom ?? 1;
+    camera.updateProjectionMatrix();
+    controls.update();
+  }
+
+  function resize() {
+    camera.aspect = canvas.width / canvas.height;
+    camera.updateProjectionMatrix();
+  }
+
+  function animate() {
+    controls.update();
+    updateSectionPlane();
+    renderer.render(scene, camera);
+  }
+
+  return {
+    renderer,
+    scene,
+    camera,
+    model,
+    parts,
+    grid,
+    floor,
+    dirLight,
+    ambientLight,
+    hemiLight,
+    controls,
+    measurementLayer,
+    healthLayer,
+    buildVolumeLayer,
+    animate,
+    resize,
+    setModel,
+    setSection,
+    setRenderMode,
+    setAppearance,
+    setUniformColor,
+    setOverhangAngle,
+    getOverhangs,
+    setPrinter,
+    getPrinterFit: () => printerFit,
+    resetCamera,
+    setView,
+    getCameraState,
+    setCameraState,
+    getBoundingBox: () => boundingBox.clone(),
+    getBoundingSphere: () => boundingSphere.clone(),
+    getParts,
+    setPartVisible,
+    setPartColor,
+    setSelectedPart,
+    arrange,
+    scaleParts,
+    rotateParts,
+    layFlat,
+    resetOrientation,
+    getPartTransform: (index: number) =>
+      partTransforms[index]?.clone() ?? new Matrix4(),
+    setTrueScale,
+    getPixelsPerUnit,
+    pick,
+    projectToCanvas,
+  };
+}
@@ -1,6 +1,10 @@
 import { defineConfig } from "vite";
 
 export default defineConfig({
+  worker: {
+    // Build workers as ES modules to match `new Worker(..., { type: "module" })`
+    format: "es",
+  },
   build: {
     sourcemap: true,
     rollupOptions: {